@@ -1,51 +1,253 @@
 import { useEffect, useMemo, useState } from 'react';
 import InputsForm from './components/InputsForm';
 import ResultCard from './components/ResultCard';
-import { PRESETS, WEIGHT_SPLITS } from "./constants";
-import type { Preset, Surface, Speed, TireType, WheelDiameter } from "./constants";
-import { computeWheelPsi, toBar } from './lib/calc';
-import { getQuery, setQuery } from './lib/urlState';
+import LimitWarnings from './components/LimitWarnings';
+import { LBS_PER_KG, PRESETS } from "./constants";
+import type { CargoItem, Preset, Surface, Speed, TireType, WheelDiameter } from "./constants";
+import type { RideConditions } from './lib/calc';
+import { computeWheelLoads, computeWheelPsi, estimateTireGeometry, explainWheelPsi, parseFrontPct } from './lib/calc';
+import { loadUnitPrefs, saveUnitPrefs, unitFormat } from './lib/units';
+import type { UnitPrefs, WeightUnit } from './lib/units';
+import UnitsPanel from './components/UnitsPanel';
+import { hasUrlParam, linkWeights, writeUrlState } from './lib/urlState';
+import type { UrlState } from './lib/urlState';
+import { clearSetupCodeParam, readSharedSetup } from './lib/setupCode';
+import ShareCard from './components/ShareCard';
+import type { ProfileSettings } from './lib/profiles';
+import { resolveCoefficients } from './lib/coefficients';
+import type { CoefficientOverrides } from './lib/coefficients';
+import { applyWheelLimits, wheelClampWarnings } from './lib/wheelLimits';
+import type { RimSetup, TireLimits, Wheel, WheelLimiter } from './lib/wheelLimits';
+import AdvancedPanel from './components/AdvancedPanel';
+import CalibrationPanel from './components/CalibrationPanel';
+import { useCalibration } from './hooks/useCalibration';
+import { fitPersonalModel } from './lib/calibration';
+import type { WheelSetup } from './lib/calibration';
+import { useProfiles } from './hooks/useProfiles';
 import { recommendPressures } from "./utils/pressureComp";
 import WindCard from './components/WindCard';
-import BestWindDirection, { recommendHeadings } from "./components/BestWindDirection";
+import LocationPicker from './components/LocationPicker';
+import RideTimePicker from './components/RideTimePicker';
+import RideTimeline from './components/RideTimeline';
+import RouteWindCard from './components/RouteWindCard';
+import AltitudeCard from './components/AltitudeCard';
+import TireHeatCard from './components/TireHeatCard';
+import { SUN_OFFSET_C } from './lib/tireHeating';
+import InflationTempInputs from './components/InflationTempInputs';
+import type { BrakeType, BrakingLevel, SunExposure } from './lib/tireHeating';
+import LoopDirectionCard from './components/LoopDirectionCard';
+import type { Route } from './lib/gpx';
+import { formatLatLng, isValidLatLng } from './lib/places';
+import { locationKey } from './lib/weather';
+import type { LatLng } from './lib/weather';
+import BestWindDirection from "./components/BestWindDirection";
+import type { RecommendOptions } from "./lib/heading";
+import HeadingConstraintsCard from './components/HeadingConstraintsCard';
+import { useHeadingConstraint } from './hooks/useHeadingConstraint';
+import { constraintToIntervals, DEVICE_LOCATION_KEY } from './lib/headingConstraints';
+import { useWind } from './hooks/useWind';
+import { useForecast } from './hooks/useForecast';
+import ConditionsCard from './components/ConditionsCard';
+import { describeConditions, forecastConditions, resolveCondition } from './lib/conditions';
+import type { ConditionMode } from './lib/conditions';
+import RimSafetyCard from './components/RimSafetyCard';
+import { loadRimThresholds, saveRimThresholds } from './lib/rimSafety';
+import type { RimWindThreshold } from './lib/rimSafety';
 
 export default function App() {
+  // The shared link (or setup code), read once; each state below starts from it
+  const [{ state: link, error: setupError }] = useState(readSharedSetup);
+
   // Theme toggle (Tailwind uses the `dark` class on <html>)
-  const [theme] = useState<'dark' | 'light'>(() => (getQuery('theme') as 'dark' | 'light') || 'dark');
+  const [theme] = useState(link.theme);
   useEffect(() => {
     const root = document.documentElement;
     if (theme === 'dark') root.classList.add('dark');
     else root.classList.remove('dark');
-    setQuery({ theme });
   }, [theme]);
 
   // Form state
-  const [unitWeight, setUnitWeight] = useState<'lbs' | 'kg'>(() => (getQuery('uw') as 'lbs' | 'kg') || 'lbs');
-  const [systemWeight, setSystemWeight] = useState<number>(() => Number(getQuery('w') ?? 180));
-  const [surface, setSurface] = useState<Surface>(() => (getQuery('surface') as any) || 'Worn Pavement / Some Cracks');
-  const [tireWidthMm, setTireWidthMm] = useState<number>(() => Number(getQuery('width') ?? 28));
-  const [wheelDiameter, setWheelDiameter] = useState<WheelDiameter>(() => (getQuery('wheel') as any) || '700C/29"');
-  const [tireType, setTireType] = useState<TireType>(() => (getQuery('tt') as any) || 'High performance tire tubeless/latex tube');
-  const [speed, setSpeed] = useState<Speed>(() => (getQuery('speed') as any) || 'Moderate Group Ride');
-  const [splitLabel, setSplitLabel] = useState<string>(() => getQuery('split') || '48/52 (Road Bikes)');
-  const [presetName, setPresetName] = useState<string>(() => getQuery('preset') || '');
+  // Display units are a device preference; links still carry the weight unit their weights are in
+  const [units, setUnits] = useState<UnitPrefs>(() => {
+    const u = loadUnitPrefs();
+    return link.uw ? { ...u, weight: link.uw } : u;
+  });
+  useEffect(() => {
+    saveUnitPrefs(units);
+  }, [units]);
+  const fmt = useMemo(() => unitFormat(units), [units]);
+  const unitWeight = units.weight;
+  const setUnitWeight = (weight: WeightUnit) => setUnits(u => ({ ...u, weight }));
+  const [linked] = useState(() => linkWeights(link, units.weight));
+  const [riderWeight, setRiderWeight] = useState(linked.rw);
+  const [bikeWeight, setBikeWeight] = useState(linked.bw);
+  const [cargo, setCargo] = useState<CargoItem[]>(linked.cargo);
+  // Switching the weight unit from the UI converts what's entered (profiles set both together)
+  function changeUnits(next: UnitPrefs) {
+    if (next.weight !== units.weight) {
+      const f = next.weight === 'kg' ? 1 / LBS_PER_KG : LBS_PER_KG;
+      const conv = (w: number) => Math.round(w * f * 10) / 10;
+      setRiderWeight(conv(riderWeight));
+      setBikeWeight(conv(bikeWeight));
+      setCargo(cargo.map(c => ({ ...c, weight: conv(c.weight) })));
+    }
+    setUnits(next);
+  }
+  const [surface, setSurface] = useState<Surface>(link.surface);
+  const [tireWidthMm, setTireWidthMm] = useState(link.width);
+  const [wheelDiameter, setWheelDiameter] = useState<WheelDiameter>(link.wheel);
+  const [tireType, setTireType] = useState<TireType>(link.tt);
+  // Rear tire (only used when front/rear differ)
+  const [sameTires, setSameTires] = useState(link.same);
+  const [rearTireWidthMm, setRearTireWidthMm] = useState(link.rwidth ?? tireWidthMm);
+  const [rearWheelDiameter, setRearWheelDiameter] = useState<WheelDiameter>(link.rwheel ?? wheelDiameter);
+  const [rearTireType, setRearTireType] = useState<TireType>(link.rtt ?? tireType);
+  const [speed, setSpeed] = useState<Speed>(link.speed);
+  const [frontPct, setFrontPct] = useState(link.split);
+  const [coefOverrides, setCoefOverrides] = useState<CoefficientOverrides>(link.coef);
+  const [presetName, setPresetName] = useState<string>(link.preset ?? '');
+  // Rim and printed tire limits (rear limits only used when front/rear differ)
+  const [rim, setRim] = useState<RimSetup>({ rimType: link.rimt, internalWidthMm: link.rimw });
+  const [tireLimits, setTireLimits] = useState<TireLimits>({ minPsi: link.tmin, maxPsi: link.tmax });
+  const [rearTireLimitsInput, setRearTireLimits] = useState<TireLimits>({ minPsi: link.rtmin, maxPsi: link.rtmax });
+
+  // Ride location (null = browser geolocation)
+  const [coords, setCoords] = useState<LatLng | null>(() => {
+    const c = { lat: link.lat ?? NaN, lon: link.lon ?? NaN };
+    return isValidLatLng(c) ? c : null;
+  });
+  const [placeName, setPlaceName] = useState(link.place);
+
+  function changeLocation(next: LatLng | null, name = '') {
+    setCoords(next);
+    setPlaceName(name);
+  }
+
+  // Planned ride start (null = now); "now" is frozen at load so it doesn't refetch each render
+  const [now] = useState(() => new Date());
+  const [rideStart, setRideStart] = useState<Date | null>(link.t);
+  const when = useMemo(() => rideStart ?? now, [rideStart, now]);
+  // Live / time-selected wind, shared by the heading recommendation; picking a
+  // heading sets the course used by the Wind card's breakdown
+  const wind = useWind({ coords: coords ?? undefined, when, unit: units.wind });
+  const [routeHeadingDeg, setRouteHeadingDeg] = useState<number | null>(link.hdg);
+
+  // Wet/night modifiers: from the forecast for the ride hour unless forced
+  const forecast = useForecast(coords ?? undefined);
+  const [wetMode, setWetMode] = useState<ConditionMode>(link.wet);
+  const [nightMode, setNightMode] = useState<ConditionMode>(link.night);
+  const forecastConds = useMemo(() => (forecast.data ? forecastConditions(forecast.data.hourly, when) : null), [forecast.data, when]);
+  const conditions = useMemo<RideConditions>(() => ({
+    wet: resolveCondition(wetMode, forecastConds?.wet ?? null),
+    night: resolveCondition(nightMode, forecastConds?.night ?? null),
+  }), [wetMode, nightMode, forecastConds]);
+  const conditionNotes = describeConditions(conditions, forecastConds);
+
+  // Rideable headings from this location constrain the recommendation
+  const headingLocationKey = coords ? locationKey(coords) : DEVICE_LOCATION_KEY;
+  const [headingConstraint, setHeadingConstraint] = useHeadingConstraint(headingLocationKey);
+  const headingOptions = useMemo<RecommendOptions>(
+    () => ({ allowedHeadings: constraintToIntervals(headingConstraint) }),
+    [headingConstraint]
+  );
+
+  // Front rim depth for the crosswind check; thresholds are a device preference
+  const [rimDepthMm, setRimDepthMm] = useState(link.rim);
+  const [rimThresholds, setRimThresholds] = useState<RimWindThreshold[]>(loadRimThresholds);
+  useEffect(() => {
+    saveRimThresholds(rimThresholds);
+  }, [rimThresholds]);
+
+  // Imported GPX route (kept in memory only) and the pace used to time it
+  const [route, setRoute] = useState<Route | null>(null);
+  const [avgSpeedKmh, setAvgSpeedKmh] = useState(link.kmh);
+  const [rideHours, setRideHours] = useState(link.dur);
+
+  // Elevation change between inflating and the ride's highest point
+  const [inflationElevationM, setInflationElevationM] = useState<number | null>(link.alt0);
+  const [summitElevationM, setSummitElevationM] = useState<number | null>(link.alt1);
+  const [keepAbsoluteConstant, setKeepAbsoluteConstant] = useState(link.abs);
+
+  // Tire heating: sun offset feeds the weather adjustment; braking heat is shown per descent
+  const [sun, setSun] = useState<SunExposure>(link.sun);
+  const [brakes, setBrakes] = useState<BrakeType>(link.brakes);
+  const [braking, setBraking] = useState<BrakingLevel>(link.braking);
+  const [descentDropM, setDescentDropM] = useState(link.drop);
+
+  // Where the tires are pumped: the targets' reference temperature and an optional indoor (garage) temperature
+  const [refTempC, setRefTempC] = useState(link.ref);
+  const [indoorTempC, setIndoorTempC] = useState<number | null>(link.indoor);
 
     // NEW: weather/elevation-adjusted results
   const [wx, setWx] = useState<{
     ambientTempC: number;
+    tireTempC: number;
+    inflationTempC: number | null;
     elevationM: number;
     ambientPressurePsi: number;
     frontPsiAdj: number;
     rearPsiAdj: number;
+    frontRidePsi: number;
+    rearRidePsi: number;
     note: string;
   } | null>(null);
   const [wxError, setWxError] = useState<string | null>(null);
   const [wxLoading, setWxLoading] = useState(false);
 
-  // Persist to URL when inputs change
-  useEffect(() => {
-    setQuery({ uw: unitWeight, w: systemWeight, surface, width: tireWidthMm, wheel: wheelDiameter, tt: tireType, speed, split: splitLabel, preset: presetName || undefined });
-  }, [unitWeight, systemWeight, surface, tireWidthMm, wheelDiameter, tireType, speed, splitLabel, presetName]);
+  // Start the rear from the front setup when splitting them apart
+  function toggleSameTires(same: boolean) {
+    setSameTires(same);
+    if (!same) {
+      setRearTireWidthMm(tireWidthMm);
+      setRearWheelDiameter(wheelDiameter);
+      setRearTireType(tireType);
+      setRearTireLimits(tireLimits);
+    }
+  }
+
+  // Saved bike/rider profiles
+  const profileStore = useProfiles();
+  const currentSettings = useMemo<ProfileSettings>(() => ({
+    unitWeight,
+    riderWeight,
+    bikeWeight,
+    cargo,
+    frontPct,
+    sameTires,
+    front: { tireWidthMm, wheelDiameter, tireType },
+    rear: { tireWidthMm: rearTireWidthMm, wheelDiameter: rearWheelDiameter, tireType: rearTireType },
+    coefficients: coefOverrides,
+    rim,
+    tireLimits: { front: tireLimits, rear: rearTireLimitsInput },
+  }), [rim, tireLimits, rearTireLimitsInput, coefOverrides, unitWeight, riderWeight, bikeWeight, cargo, frontPct, sameTires, tireWidthMm, wheelDiameter, tireType, rearTireWidthMm, rearWheelDiameter, rearTireType]);
+
+  function applySettings(s: ProfileSettings) {
+    setPresetName('');
+    setUnitWeight(s.unitWeight);
+    setRiderWeight(s.riderWeight);
+    setBikeWeight(s.bikeWeight);
+    setCargo(s.cargo);
+    setFrontPct(s.frontPct);
+    setSameTires(s.sameTires);
+    setTireWidthMm(s.front.tireWidthMm);
+    setWheelDiameter(s.front.wheelDiameter);
+    setTireType(s.front.tireType);
+    setRearTireWidthMm(s.rear.tireWidthMm);
+    setRearWheelDiameter(s.rear.wheelDiameter);
+    setRearTireType(s.rear.tireType);
+    setCoefOverrides(s.coefficients);
+    setRim(s.rim);
+    setTireLimits(s.tireLimits.front);
+    setRearTireLimits(s.tireLimits.rear);
+  }
+
+  const frontTireLimits = tireLimits;
+  const rearTireLimits = sameTires ? tireLimits : rearTireLimitsInput;
+
+  const rearTire = useMemo(() => (sameTires
+    ? { tireWidthMm, wheelDiameter, tireType }
+    : { tireWidthMm: rearTireWidthMm, wheelDiameter: rearWheelDiameter, tireType: rearTireType }
+  ), [sameTires, tireWidthMm, wheelDiameter, tireType, rearTireWidthMm, rearWheelDiameter, rearTireType]);
 
   // Apply preset
   function applyPreset(name: string) {
@@ -53,49 +255,152 @@ export default function App() {
     const p = PRESETS.find(p => p.name === name as Preset['name']);
     if (!p) return;
     setSurface(p.surface);
-    setSplitLabel(p.splitLabel);
-    if (!getQuery('width')) setTireWidthMm(p.defaultWidth);
+    setFrontPct(parseFrontPct(p.splitLabel));
+    if (!hasUrlParam('width')) setTireWidthMm(p.defaultWidth);
+    if (!hasUrlParam('rwidth')) setRearTireWidthMm(p.defaultWidth);
+  }
+
+  const loads = useMemo(() => {
+    const toLbs = (w: number) => (unitWeight === 'lbs' ? w : w * LBS_PER_KG);
+    return computeWheelLoads({
+      riderLbs: toLbs(riderWeight),
+      bikeLbs: toLbs(bikeWeight),
+      cargo: cargo.map(c => ({ placement: c.placement, weightLbs: toLbs(c.weight) })),
+      frontPct,
+    });
+  }, [unitWeight, riderWeight, bikeWeight, cargo, frontPct]);
+  const weightValid = loads.totalLbs >= 75 && loads.totalLbs <= 450;
+
+  const coefficients = useMemo(() => resolveCoefficients(coefOverrides), [coefOverrides]);
+
+  const wheelSetups = useMemo<{ front: WheelSetup; rear: WheelSetup }>(() => ({
+    front: { loadLbs: loads.frontLbs, surface, speed, tireWidthMm, tireType, wheelDiameter, conditions },
+    rear: { loadLbs: loads.rearLbs, surface, speed, ...rearTire, conditions },
+  }), [loads, surface, speed, tireWidthMm, tireType, wheelDiameter, rearTire, conditions]);
+
+  // Personal calibration from known-good pressures
+  const calibration = useCalibration();
+  const [fitEnabled, setFitEnabled] = useState(link.fit);
+  const personalFit = useMemo(() => fitPersonalModel(calibration.points, coefficients), [calibration.points, coefficients]);
+  const activeFit = fitEnabled && personalFit ? personalFit : undefined;
+
+  // Everything a shared link carries; persisted to the URL and packed into setup codes
+  const linkState = useMemo<UrlState>(() => ({
+    theme,
+    uw: unitWeight, rw: riderWeight, bw: bikeWeight, cargo,
+    surface, width: tireWidthMm, wheel: wheelDiameter, tt: tireType, speed, split: frontPct,
+    preset: PRESETS.find(p => p.name === presetName)?.name ?? null,
+    same: sameTires,
+    rwidth: sameTires ? null : rearTireWidthMm,
+    rwheel: sameTires ? null : rearWheelDiameter,
+    rtt: sameTires ? null : rearTireType,
+    coef: coefOverrides,
+    fit: fitEnabled,
+    rimt: rim.rimType,
+    rimw: rim.internalWidthMm,
+    tmin: tireLimits.minPsi,
+    tmax: tireLimits.maxPsi,
+    rtmin: sameTires ? null : rearTireLimitsInput.minPsi,
+    rtmax: sameTires ? null : rearTireLimitsInput.maxPsi,
+    lat: coords?.lat ?? null,
+    lon: coords?.lon ?? null,
+    place: coords ? placeName : '',
+    t: rideStart,
+    dur: rideHours,
+    kmh: avgSpeedKmh,
+    hdg: routeHeadingDeg,
+    wet: wetMode,
+    night: nightMode,
+    rim: rimDepthMm,
+    alt0: inflationElevationM,
+    alt1: summitElevationM,
+    abs: keepAbsoluteConstant,
+    sun, brakes, braking, drop: descentDropM,
+    ref: refTempC,
+    indoor: indoorTempC,
+  }), [theme, unitWeight, riderWeight, bikeWeight, cargo, surface, tireWidthMm, wheelDiameter, tireType, speed, frontPct, presetName, sameTires, rearTireWidthMm, rearWheelDiameter, rearTireType, coefOverrides, fitEnabled, rim, tireLimits, rearTireLimitsInput, coords, placeName, rideStart, rideHours, avgSpeedKmh, routeHeadingDeg, wetMode, nightMode, rimDepthMm, inflationElevationM, summitElevationM, keepAbsoluteConstant, sun, brakes, braking, descentDropM, refTempC, indoorTempC]);
+  useEffect(() => {
+    writeUrlState(linkState);
+  }, [linkState]);
+  // A setup code has been unpacked into the state above (or its error kept for display);
+  // from here on the parameters track edits, and a reload doesn't repeat a failed code
+  useEffect(() => {
+    clearSetupCodeParam();
+  }, []);
+
+  function addCalibrationPoint(label: string, frontPsiFelt: number, rearPsiFelt: number) {
+    calibration.add({
+      label,
+      front: { ...wheelSetups.front, psi: frontPsiFelt },
+      rear: { ...wheelSetups.rear, psi: rearPsiFelt },
+    });
   }
 
-  const split = useMemo(() => WEIGHT_SPLITS.find(s => s.label === splitLabel) ?? WEIGHT_SPLITS[1], [splitLabel]);
-  const weightLbs = unitWeight === 'lbs' ? systemWeight : systemWeight * 2.20462262;
-  const weightValid = weightLbs >= 75 && weightLbs <= 450;
+  // Rim and tire limits for any pressure we suggest pumping, not just the model's
+  const limitPsi = useMemo<WheelLimiter>(() => (wheel, psi) => applyWheelLimits(psi, {
+    rim,
+    tire: wheel === 'front' ? frontTireLimits : rearTireLimits,
+    tireWidthMm: wheelSetups[wheel].tireWidthMm,
+    format: (p) => fmt.pressure(p),
+  }), [rim, frontTireLimits, rearTireLimits, wheelSetups, fmt]);
 
-  const { frontPsi, rearPsi } = useMemo(() => {
-    const frontLoad = weightLbs * split.front;
-    const rearLoad = weightLbs * split.rear;
-    const f = computeWheelPsi({ loadLbs: frontLoad, tireWidthMm, surface, speed, tireType, wheelDiameter });
-    const r = computeWheelPsi({ loadLbs: rearLoad, tireWidthMm, surface, speed, tireType, wheelDiameter });
-    return { frontPsi: Math.round(f), rearPsi: Math.round(r) };
-  }, [weightLbs, split, tireWidthMm, surface, speed, tireType, wheelDiameter]);
+  const { frontPsi, rearPsi, frontTrace, rearTrace, frontLimits, rearLimits, frontStockPsi, rearStockPsi, frontGeometry, rearGeometry } = useMemo(() => {
+    const { front, rear } = wheelSetups;
+    // Rim and tire limits apply after the model (and any personal fit)
+    // Rounding to the pump gauge happens at display time
+    const ft = explainWheelPsi({ ...front, coefficients, fit: activeFit });
+    const rt = explainWheelPsi({ ...rear, coefficients, fit: activeFit });
+    const fl = limitPsi('front', ft.psi);
+    const rl = limitPsi('rear', rt.psi);
+    return {
+      frontPsi: fl.psi,
+      rearPsi: rl.psi,
+      frontTrace: ft,
+      rearTrace: rt,
+      frontLimits: fl,
+      rearLimits: rl,
+      frontStockPsi: computeWheelPsi({ ...front, coefficients }),
+      rearStockPsi: computeWheelPsi({ ...rear, coefficients }),
+      frontGeometry: estimateTireGeometry({ ...front, psi: fl.psi }),
+      rearGeometry: estimateTireGeometry({ ...rear, psi: rl.psi }),
+    };
+  }, [wheelSetups, coefficients, activeFit, limitPsi]);
 
     // NEW: call weather/elevation compensation whenever baseline pressures or key inputs change
   useEffect(() => {
     let cancelled = false;
+    const controller = new AbortController();
 
     async function updateWithWeather() {
       try {
         setWxLoading(true);
         setWxError(null);
 
-// Use your baseline (gauge) targets at a reference temp (20 °C)
+// Use your baseline (gauge) targets at the reference temp (20 °C unless changed)
         const result = await recommendPressures({
           frontPsiRef: frontPsi,
           rearPsiRef: rearPsi,
-          refTempC: 20,
+          refTempC,
+          inflationTempC: indoorTempC ?? undefined,
+          signal: controller.signal,
           keepAbsoluteConstant: false, // typical cycling approach
-          // coords: { lat: 39.77, lon: -86.16 }, // optional: pass fixed coords; otherwise uses geolocation()
-          when: new Date()
+          tireHeatC: SUN_OFFSET_C[sun],
+          coords: coords ?? undefined, // otherwise uses geolocation()
+          when
         });
 
         if (cancelled) return;
 
         setWx({
           ambientTempC: result.ambientTempC,
+          tireTempC: result.tireTempC,
+          inflationTempC: indoorTempC,
           elevationM: result.elevationM,
           ambientPressurePsi: result.ambientPressurePsi,
           frontPsiAdj: result.front.psi,
           rearPsiAdj: result.rear.psi,
+          frontRidePsi: result.front.ridePsi,
+          rearRidePsi: result.rear.ridePsi,
           note: result.front.note
         });
       } catch (e: any) {
@@ -114,14 +419,31 @@ export default function App() {
       setWx(null);
     }
 
-    return () => { cancelled = true; };
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
   }, [
     // dependencies that impact baseline psi or conditions:
-    frontPsi, rearPsi, weightValid, tireWidthMm, surface, speed, tireType, wheelDiameter
+    frontPsi, rearPsi, weightValid, coords, when, sun, refTempC, indoorTempC, tireWidthMm, surface, speed, tireType, wheelDiameter, rearTire
   ]);
 
-  const frontBar = toBar(frontPsi);
-  const rearBar = toBar(rearPsi);
+  // Warming or an indoor pump can push the weather-adjusted value past a ceiling the
+  // baseline respected, so the limits apply again to what actually goes on the pump
+  const wxLimited = useMemo(() => {
+    if (!wx) return null;
+    const abs = wx.ambientPressurePsi;
+    const limit = (wheel: Wheel, pumpPsi: number, ridePsi: number) => {
+      const limits = limitPsi(wheel, pumpPsi);
+      // Sealed tire: the outdoor reading follows the pumped one in absolute pressure
+      return { limits, ridePsi: (limits.psi + abs) * ((ridePsi + abs) / (pumpPsi + abs)) - abs };
+    };
+    return {
+      front: limit('front', wx.frontPsiAdj, wx.frontRidePsi),
+      rear: limit('rear', wx.rearPsiAdj, wx.rearRidePsi),
+    };
+  }, [wx, limitPsi]);
+
 
   return (
 <main className="min-h-dvh bg-slate-50 text-slate-900 p-6 transition-colors dark:bg-slate-950 dark:text-slate-100">
@@ -130,6 +452,7 @@ export default function App() {
           <div>
             <h1 className="text-2xl font-semibold tracking-tight">Cycling Tire Pressure Calculator</h1>
             <p className="text-sm text-slate-600 dark:text-slate-400 mt-3">Estimate optimal tire pressure for road, gravel, and mountain bikes.</p>
+            {setupError && <p className="text-sm text-rose-600 mt-2">{setupError}. Showing the link's other settings instead.</p>}
 
           </div>
           {/* <div className="flex items-center gap-2">
@@ -139,54 +462,156 @@ export default function App() {
         </header>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <InputsForm
-            unitWeight={unitWeight} setUnitWeight={setUnitWeight}
-            systemWeight={systemWeight} setSystemWeight={setSystemWeight}
-            surface={surface} setSurface={setSurface}
-            tireWidthMm={tireWidthMm} setTireWidthMm={setTireWidthMm}
-            wheelDiameter={wheelDiameter} setWheelDiameter={setWheelDiameter}
-            tireType={tireType} setTireType={setTireType}
-            speed={speed} setSpeed={setSpeed}
-            splitLabel={splitLabel} setSplitLabel={setSplitLabel}
-            presetName={presetName} applyPreset={applyPreset}
-            weightValid={weightValid}
-          />
+          <div className="flex flex-col gap-6">
+            <InputsForm
+              unitWeight={unitWeight} setUnitWeight={(weight) => changeUnits({ ...units, weight })}
+              riderWeight={riderWeight} setRiderWeight={setRiderWeight}
+              bikeWeight={bikeWeight} setBikeWeight={setBikeWeight}
+              cargo={cargo} setCargo={setCargo}
+              loads={loads}
+              surface={surface} setSurface={setSurface}
+              tireWidthMm={tireWidthMm} setTireWidthMm={setTireWidthMm}
+              wheelDiameter={wheelDiameter} setWheelDiameter={setWheelDiameter}
+              tireType={tireType} setTireType={setTireType}
+              sameTires={sameTires} setSameTires={toggleSameTires}
+              rearTireWidthMm={rearTireWidthMm} setRearTireWidthMm={setRearTireWidthMm}
+              rearWheelDiameter={rearWheelDiameter} setRearWheelDiameter={setRearWheelDiameter}
+              rearTireType={rearTireType} setRearTireType={setRearTireType}
+              rim={rim} setRim={setRim}
+              pressureUnit={units.pressure}
+              tireLimits={tireLimits} setTireLimits={setTireLimits}
+              rearTireLimits={rearTireLimitsInput} setRearTireLimits={setRearTireLimits}
+              speed={speed} setSpeed={setSpeed}
+              frontPct={frontPct} setFrontPct={setFrontPct}
+              presetName={presetName} applyPreset={applyPreset}
+              weightValid={weightValid}
+              profileStore={profileStore} currentSettings={currentSettings} applySettings={applySettings}
+            />
+            <UnitsPanel units={units} setUnits={changeUnits} />
+            <AdvancedPanel overrides={coefOverrides} setOverrides={setCoefOverrides} />
+            <CalibrationPanel
+              units={units}
+              points={calibration.points}
+              fit={personalFit}
+              fitEnabled={fitEnabled} setFitEnabled={setFitEnabled}
+              onAdd={addCalibrationPoint}
+              onRemove={calibration.remove}
+              onClear={calibration.clear}
+            />
+            <ShareCard state={linkState} />
+          </div>
 
           <div className="grid grid-cols-1 gap-6">
-            <ResultCard title="Front Tire" psi={frontPsi} bar={frontBar} />
-            <ResultCard title="Rear Tire" psi={rearPsi} bar={rearBar} />
+            <ResultCard title="Front Tire" psi={frontPsi} fmt={fmt} geometry={frontGeometry} stockPsi={activeFit ? frontStockPsi : undefined} trace={frontTrace} limits={frontLimits} weather={wxLimited && !wxLoading ? wxLimited.front.limits : undefined} notes={conditionNotes} />
+            <ResultCard title="Rear Tire" psi={rearPsi} fmt={fmt} geometry={rearGeometry} stockPsi={activeFit ? rearStockPsi : undefined} trace={rearTrace} limits={rearLimits} weather={wxLimited && !wxLoading ? wxLimited.rear.limits : undefined} notes={conditionNotes} />
+            <LocationPicker coords={coords} placeName={placeName} onChange={changeLocation} />
+            <RideTimePicker rideStart={rideStart} now={now} onChange={setRideStart} />
+            <ConditionsCard
+              wetMode={wetMode} setWetMode={setWetMode}
+              nightMode={nightMode} setNightMode={setNightMode}
+              forecast={forecastConds}
+              notes={conditionNotes}
+            />
              {/* NEW: Weather-adjusted display (optional card) */}
             <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60 p-4">
               <h3 className="font-semibold">Weather & Elevation Adjustment</h3>
+              <InflationTempInputs units={units} refTempC={refTempC} setRefTempC={setRefTempC} indoorTempC={indoorTempC} setIndoorTempC={setIndoorTempC} />
               {wxLoading && <p className="text-sm mt-2">Fetching local temperature & elevation…</p>}
               {wxError && <p className="text-sm mt-2 text-rose-600">{wxError}</p>}
-              {wx && !wxLoading && (
+              {wx && wxLimited && !wxLoading && (
                 <>
                   <p className="text-sm mt-2">
-                    Ambient <strong>{wx.ambientTempC.toFixed(1)}°C</strong> · Elevation <strong>{Math.round(wx.elevationM)} m</strong> ·
-                    Ambient Pressure <strong>{wx.ambientPressurePsi.toFixed(2)} psi</strong>
+                    Ambient <strong>{fmt.temperature(wx.ambientTempC, 1)}</strong>
+                    {wx.tireTempC !== wx.ambientTempC && <> (tire ~<strong>{fmt.temperature(wx.tireTempC)}</strong>)</>} · Elevation <strong>{fmt.elevation(wx.elevationM)}</strong> ·
+                    Ambient Pressure <strong>{fmt.pressure(wx.ambientPressurePsi, 2)}</strong>
                   </p>
                   <div className="mt-3 grid grid-cols-2 gap-3">
                     <div className="rounded-lg bg-slate-100 dark:bg-slate-800 p-3">
-                      <div className="text-xs uppercase tracking-wide text-slate-500">Front (adjusted)</div>
-                      <div className="text-lg font-semibold">{wx.frontPsiAdj.toFixed(1)} psi</div>
+                      <div className="text-xs uppercase tracking-wide text-slate-500">Front ({wx.inflationTempC !== null ? `set indoors at ${fmt.temperature(wx.inflationTempC)}` : 'adjusted'})</div>
+                      <div className="text-lg font-semibold">{fmt.gauge(wxLimited.front.limits.psi, wxLimited.front.limits)}</div>
+                      {wx.inflationTempC !== null && <div className="text-xs text-slate-500">→ {fmt.gauge(wxLimited.front.ridePsi)} outside</div>}
                     </div>
                     <div className="rounded-lg bg-slate-100 dark:bg-slate-800 p-3">
-                      <div className="text-xs uppercase tracking-wide text-slate-500">Rear (adjusted)</div>
-                      <div className="text-lg font-semibold">{wx.rearPsiAdj.toFixed(1)} psi</div>
+                      <div className="text-xs uppercase tracking-wide text-slate-500">Rear ({wx.inflationTempC !== null ? `set indoors at ${fmt.temperature(wx.inflationTempC)}` : 'adjusted'})</div>
+                      <div className="text-lg font-semibold">{fmt.gauge(wxLimited.rear.limits.psi, wxLimited.rear.limits)}</div>
+                      {wx.inflationTempC !== null && <div className="text-xs text-slate-500">→ {fmt.gauge(wxLimited.rear.ridePsi)} outside</div>}
                     </div>
                   </div>
+                  <LimitWarnings warnings={wheelClampWarnings(wxLimited.front.limits, wxLimited.rear.limits)} />
                   <p className="text-xs text-slate-500 mt-2">{wx.note}</p>
                 </>
               )}
             </div>
-            {/* Wind card — geolocates by default; pass coords if you want fixed location */}
+            <RideTimeline
+              coords={coords ?? undefined}
+              start={when}
+              durationH={rideHours} setDurationH={setRideHours}
+              frontPsi={frontPsi} rearPsi={rearPsi}
+              refTempC={refTempC} indoorTempC={indoorTempC}
+              limitPsi={limitPsi}
+              units={units}
+            />
+            <AltitudeCard
+              frontPsi={frontPsi} rearPsi={rearPsi}
+              route={route}
+              locationElevationM={wx?.elevationM ?? null}
+              locationTempC={wx?.ambientTempC ?? null}
+              inflationTempC={indoorTempC}
+              limitPsi={limitPsi}
+              inflationElevationM={inflationElevationM} setInflationElevationM={setInflationElevationM}
+              summitElevationM={summitElevationM} setSummitElevationM={setSummitElevationM}
+              keepAbsoluteConstant={keepAbsoluteConstant} setKeepAbsoluteConstant={setKeepAbsoluteConstant}
+              units={units}
+            />
+            <TireHeatCard
+              sun={sun} setSun={setSun}
+              brakes={brakes} setBrakes={setBrakes}
+              braking={braking} setBraking={setBraking}
+              descentDropM={descentDropM} setDescentDropM={setDescentDropM}
+              route={route}
+              frontPsi={frontPsi} rearPsi={rearPsi}
+              tireTempC={wx?.tireTempC ?? null}
+              ambientPressurePsi={wx?.ambientPressurePsi ?? null}
+              units={units}
+            />
+            <RouteWindCard
+              route={route} onRouteChange={setRoute}
+              start={when}
+              avgSpeedKmh={avgSpeedKmh} setAvgSpeedKmh={setAvgSpeedKmh}
+              units={units}
+            />
+            <LoopDirectionCard route={route} start={when} avgSpeedKmh={avgSpeedKmh} unit={units.wind} />
+            {/* Wind card — shows the same lookup the heading recommendation uses */}
             <WindCard
-              // coords={{ lat: 39.77, lon: -86.16 }} // optional: fixed coords
-              unit="mph"
-              // routeHeadingDeg={90} // optional: show head/tail/crosswind for an eastbound route
+              wind={wind}
+              unit={units.wind}
+              routeHeadingDeg={routeHeadingDeg ?? undefined}
+            />
+            <BestWindDirection
+              windFromDeg={wind.data?.directionDeg ?? NaN}
+              windSpeed={wind.data?.speed ?? NaN}
+              gustSpeed={wind.data?.gust}
+              unitsLabel={fmt.windUnit}
+              subtitle={wind.loading ? 'Updating wind…' : wind.data ? `Forecast for ${new Date(wind.data.time).toLocaleString()}` : wind.error ?? undefined}
+              options={headingOptions}
+              onPick={setRouteHeadingDeg}
+              selectedHeadingDeg={routeHeadingDeg}
+            />
+            <RimSafetyCard
+              depthMm={rimDepthMm}
+              setDepthMm={setRimDepthMm}
+              thresholds={rimThresholds}
+              setThresholds={setRimThresholds}
+              wind={wind.data}
+              headingDeg={routeHeadingDeg}
+              unit={units.wind}
+            />
+            <HeadingConstraintsCard
+              constraint={headingConstraint}
+              onChange={setHeadingConstraint}
+              route={route}
+              locationLabel={coords ? placeName || formatLatLng(coords) : 'your current location'}
             />
-            <BestWindDirection windFromDeg={270} windSpeed={12} unitsLabel="mph" />
           </div>
         </div>
       </section>
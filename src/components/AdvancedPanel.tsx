@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { SPEEDS, SURFACES, TIRE_TYPES } from '../constants';
+import { DEFAULT_COEFFICIENTS } from '../lib/calc';
+import type { ModelCoefficients } from '../lib/calc';
+import { hasOverrides, resolveCoefficients, setTableOverride, validateCoefficient } from '../lib/coefficients';
+import type { CoefficientOverrides, CoefficientTable } from '../lib/coefficients';
+
+type Props = {
+  overrides: CoefficientOverrides;
+  setOverrides: (o: CoefficientOverrides) => void;
+};
+
+const TABLES: { table: CoefficientTable; title: string; keys: readonly string[]; hint: string }[] = [
+  { table: 'surfaceMult', title: 'Surface multiplier', keys: SURFACES, hint: 'psi × (1 + value)' },
+  { table: 'speedMult', title: 'Speed multiplier', keys: SPEEDS, hint: 'psi × (1 + value)' },
+  { table: 'tireTypeOffset', title: 'Tire type offset', keys: TIRE_TYPES, hint: 'psi + value' },
+];
+
+export default function AdvancedPanel({ overrides, setOverrides }: Props) {
+  const effective = resolveCoefficients(overrides);
+
+  return (
+    <details className="rounded-2xl border border-slate-200 bg-white/70 p-5 shadow-xl dark:border-slate-800 dark:bg-slate-900/50">
+      <summary className="cursor-pointer text-sm font-semibold text-slate-700 dark:text-slate-300">
+        Advanced: model coefficients{hasOverrides(overrides) && ' (customised)'}
+      </summary>
+      <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+        Baseline psi = K × load (lbs) / width (mm), then scaled by surface and speed and offset by tire type.
+      </p>
+
+      <div className="mt-3 flex items-end gap-2">
+        <CoefInput
+          label="K (baseline scale)"
+          kind="k"
+          value={effective.k}
+          isDefault={overrides.k === undefined}
+          onChange={(v) => setOverrides({ ...overrides, k: v === DEFAULT_COEFFICIENTS.k ? undefined : v })}
+          onReset={() => setOverrides({ ...overrides, k: undefined })}
+        />
+      </div>
+
+      {TABLES.map(({ table, title, keys, hint }) => {
+        const values: Record<string, number> = effective[table];
+        const overridden: Record<string, number> = overrides[table] ?? {};
+        return (
+          <fieldset key={table} className="mt-4">
+            <legend className="text-sm text-slate-700 dark:text-slate-300">{title} <span className="text-xs text-slate-500">({hint})</span></legend>
+            <div className="mt-2 grid grid-cols-1 gap-2 md:grid-cols-2">
+              {keys.map(key => (
+                <CoefInput
+                  key={key}
+                  label={key}
+                  kind={table}
+                  value={values[key]}
+                  isDefault={overridden[key] === undefined}
+                  onChange={(v) => setOverrides(setTableOverride(overrides, table, key, v))}
+                  onReset={() => setOverrides(setTableOverride(overrides, table, key, undefined))}
+                />
+              ))}
+            </div>
+          </fieldset>
+        );
+      })}
+
+      <button type="button" disabled={!hasOverrides(overrides)} onClick={() => setOverrides({})} className="mt-4 rounded-full border border-slate-300 px-3 py-2 text-sm disabled:opacity-50 dark:border-slate-700">
+        Reset all to defaults
+      </button>
+    </details>
+  );
+}
+
+function CoefInput({ label, kind, value, isDefault, onChange, onReset }: {
+  label: string;
+  kind: keyof ModelCoefficients;
+  value: number;
+  isDefault: boolean;
+  onChange: (v: number) => void;
+  onReset: () => void;
+}) {
+  // Keep the typed text locally so invalid input can be shown without being applied
+  const [draft, setDraft] = useState<string | null>(null);
+  const error = draft === null ? null : validateCoefficient(kind, draft.trim() === '' ? NaN : Number(draft));
+
+  return (
+    <div className="flex-1">
+      <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">{label}</label>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          step="any"
+          value={draft ?? String(value)}
+          onChange={(e) => {
+            const text = e.target.value;
+            setDraft(text);
+            const n = text.trim() === '' ? NaN : Number(text);
+            if (validateCoefficient(kind, n) === null) onChange(n);
+          }}
+          onBlur={() => { if (!error) setDraft(null); }}
+          aria-invalid={error != null}
+          className={`w-full rounded-xl border bg-white px-3 py-1.5 text-sm dark:bg-slate-950 ${error ? 'border-rose-500' : isDefault ? 'border-slate-300 dark:border-slate-700' : 'border-sky-400'}`}
+        />
+        <button type="button" disabled={isDefault && !error} onClick={() => { setDraft(null); onReset(); }} aria-label={`Reset ${label}`} className="rounded-full border border-slate-300 px-2 text-sm disabled:opacity-40 dark:border-slate-700">↺</button>
+      </div>
+      {error && <p className="mt-1 text-xs text-rose-600">{error}</p>}
+    </div>
+  );
+}
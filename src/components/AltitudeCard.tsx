@@ -0,0 +1,130 @@
+import { useMemo } from 'react';
+import { routeElevationProfile } from '../lib/gpx';
+import type { Route } from '../lib/gpx';
+import { fromM, toM, unitFormat } from '../lib/units';
+import type { UnitPrefs } from '../lib/units';
+import { wheelClampWarnings } from '../lib/wheelLimits';
+import type { WheelLimiter } from '../lib/wheelLimits';
+import { LAPSE_RATE_C_PER_M, planAltitudeChange } from '../utils/pressureComp';
+import LimitWarnings from './LimitWarnings';
+
+type Props = {
+  frontPsi: number;                 // targets to hold at the summit
+  rearPsi: number;
+  route: Route | null;
+  locationElevationM: number | null; // from the weather lookup, used when no inflation elevation is entered
+  locationTempC: number | null;     // outdoors, for the summit estimate
+  inflationTempC: number | null;    // where the tires are pumped (e.g. indoors); null = outdoors
+  limitPsi: WheelLimiter;
+  inflationElevationM: number | null;
+  setInflationElevationM: (v: number | null) => void;
+  summitElevationM: number | null;
+  setSummitElevationM: (v: number | null) => void;
+  keepAbsoluteConstant: boolean;
+  setKeepAbsoluteConstant: (v: boolean) => void;
+  units: UnitPrefs;
+};
+
+const input = 'w-24 rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-sm dark:border-slate-700 dark:bg-slate-950';
+const optionalNumber = (text: string) => (text.trim() === '' || !Number.isFinite(Number(text)) ? null : Number(text));
+
+export default function AltitudeCard({
+  frontPsi, rearPsi, route, locationElevationM, locationTempC, inflationTempC, limitPsi,
+  inflationElevationM, setInflationElevationM, summitElevationM, setSummitElevationM,
+  keepAbsoluteConstant, setKeepAbsoluteConstant, units,
+}: Props) {
+  const fmt = unitFormat(units);
+  // Elevation inputs are in the display unit; state stays in metres
+  const shown = (m: number | null) => (m == null ? '' : Math.round(fromM(m, units.elevation)));
+  const parsed = (text: string) => {
+    const v = optionalNumber(text);
+    return v == null ? null : toM(v, units.elevation);
+  };
+  const profile = route ? routeElevationProfile(route.points) : null;
+  const bottomM = inflationElevationM ?? locationElevationM;
+
+  const plan = useMemo(() => {
+    if (bottomM == null || summitElevationM == null) return null;
+    return planAltitudeChange({
+      frontTargetPsi: frontPsi,
+      rearTargetPsi: rearPsi,
+      inflationElevationM: bottomM,
+      summitElevationM,
+      inflationTempC: inflationTempC ?? locationTempC ?? 20,
+      // The summit cools from the outdoor temperature, not from a warm garage
+      summitTempC: locationTempC == null ? undefined : locationTempC - LAPSE_RATE_C_PER_M * (summitElevationM - bottomM),
+      keepAbsoluteConstant,
+      limitPsi,
+    });
+  }, [frontPsi, rearPsi, bottomM, summitElevationM, locationTempC, inflationTempC, keepAbsoluteConstant, limitPsi]);
+
+  function applyRoute() {
+    if (!profile) return;
+    setInflationElevationM(Math.round(profile.startM));
+    setSummitElevationM(Math.round(profile.maxM));
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60 p-4">
+      <h3 className="font-semibold">Altitude Change</h3>
+      <p className="text-sm mt-1 text-slate-600 dark:text-slate-400">
+        For mountain passes or travelling to an altitude race: a sealed tire reads higher as the air thins.
+      </p>
+
+      <div className="mt-3 flex flex-wrap items-end gap-3 text-sm">
+        <label>
+          <span className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Inflated at ({fmt.elevationUnit})</span>
+          <input
+            type="number"
+            step={10}
+            value={shown(inflationElevationM)}
+            placeholder={locationElevationM != null ? String(shown(locationElevationM)) : 'elevation'}
+            onChange={(e) => setInflationElevationM(parsed(e.target.value))}
+            className={input}
+          />
+        </label>
+        <label>
+          <span className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Highest point ({fmt.elevationUnit})</span>
+          <input
+            type="number"
+            step={10}
+            value={shown(summitElevationM)}
+            placeholder="summit"
+            onChange={(e) => setSummitElevationM(parsed(e.target.value))}
+            className={input}
+          />
+        </label>
+        <button type="button" onClick={applyRoute} disabled={!profile} title={profile ? undefined : 'Load a route with elevation data'} className="rounded-full border border-slate-300 px-3 py-1.5 text-sm disabled:opacity-50 dark:border-slate-700">
+          From route
+        </button>
+      </div>
+
+      <label className="mt-3 inline-flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={keepAbsoluteConstant} onChange={(e) => setKeepAbsoluteConstant(e.target.checked)} className="h-4 w-4 accent-sky-500" />
+        Pre-compensate at the bottom (absolute pressure held; no stop to adjust)
+      </label>
+
+      {!plan && <p className="text-sm mt-2 text-slate-500">Enter the highest point{bottomM == null && ' and where you inflate'} to see the change.</p>}
+      {plan && (
+        <>
+          <div className="mt-3 grid grid-cols-2 gap-3 text-sm">
+            {([['Front', plan.front], ['Rear', plan.rear]] as const).map(([label, p]) => (
+              <div key={label} className="rounded-lg bg-slate-100 dark:bg-slate-800 p-3">
+                <div className="text-[11px] uppercase tracking-wide text-slate-500">{label}</div>
+                <div>Inflate to <strong>{fmt.gauge(p.inflatePsi, p.limits)}</strong></div>
+                <div className="text-slate-500">Reads {fmt.pressure(p.summitPsi)} at the top ({fmt.pressureDelta(p.changePsi)})</div>
+              </div>
+            ))}
+          </div>
+          <LimitWarnings warnings={wheelClampWarnings(plan.front.limits, plan.rear.limits)} />
+          <p className="text-xs mt-2 text-slate-500">
+            Air pressure {fmt.pressure(plan.inflationAmbientPsi, 2)} → {fmt.pressure(plan.summitAmbientPsi, 2)}, about {fmt.temperature(plan.summitTempC)} at the top.
+            {keepAbsoluteConstant
+              ? ' Inflating low at the bottom puts you on target at the summit, where descents need it most.'
+              : ` Inflate to your targets and let out about ${fmt.pressure(Math.max(0, plan.front.summitPsi - frontPsi))} front / ${fmt.pressure(Math.max(0, plan.rear.summitPsi - rearPsi))} rear at the top.`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
-import React, { useMemo } from 'react';
+import { useMemo } from 'react';
+import { bearingToCompass, clampDeg, recommendHeadings } from '../lib/heading';
+import type { RecommendOptions } from '../lib/heading';
 
 /**
  * BestWindDirection.tsx
@@ -12,141 +14,42 @@ import React, { useMemo } from 'react';
  * - Units for windSpeed can be anything (mph, km/h, m/s) since we only
  *   compare components proportionally. Values are displayed as given.
  *
+ * - Gusts (same units) are optional; when given, the crosswind penalty
+ *   leans toward the gust crosswind since that is what pushes a bike around.
+ *
  * Usage:
- * <BestWindDirection windFromDeg={270} windSpeed={12} />
+ * <BestWindDirection windFromDeg={270} windSpeed={12} gustSpeed={20} />
  *
- * You can also reuse the pure function `recommendHeadings` elsewhere,
- * e.g. to pre-compute a route bearing.
+ * The scoring itself lives in lib/heading (`recommendHeadings`), e.g. to
+ * pre-compute a route bearing.
  */
 
-// -------------------- Math utilities --------------------
-const clampDeg = (deg: number) => ((deg % 360) + 360) % 360;
-const toRad = (deg: number) => (deg * Math.PI) / 180;
-
-/** Smallest signed angular difference a - b in [-180, 180] */
-function angleDiff(a: number, b: number): number {
-  const d = clampDeg(a) - clampDeg(b);
-  const wrapped = ((d + 540) % 360) - 180; // shift to [-180, 180]
-  return wrapped;
-}
-
-const COMPASS_16 = [
-  "N","NNE","NE","ENE","E","ESE","SE","SSE",
-  "S","SSW","SW","WSW","W","WNW","NW","NNW",
-];
-
-export function bearingToCompass(deg: number): string {
-  const i = Math.round(clampDeg(deg) / 22.5) % 16;
-  return COMPASS_16[i];
-}
-
-// -------------------- Core scoring --------------------
-export type Recommendation = {
-  headingDeg: number;        // where to ride (bearing TO)
-  headingLabel: string;      // e.g., "ESE"
-  score: number;             // higher is better (tailwind - penalty * crosswind)
-  tailComponent: number;     // +tailwind (same units as windSpeed)
-  crossComponent: number;    // |crosswind|
-  windTowardDeg: number;     // wind vector direction (FROM+180)
-};
-
-export type RecommendOptions = {
-  resolutionDeg?: number;        // grid resolution; default 5°
-  crosswindPenalty?: number;     // weight on crosswind; default 0.4
-  allowedHeadings?: Array<[number, number]>; // constrain search to intervals [start,end] (deg)
-  minSeparationDeg?: number;     // min spacing between returned headings; default 15°
-  topK?: number;                  // how many top headings to return; default 3
-};
-
-function inIntervals(x: number, ranges?: Array<[number, number]>) {
-  if (!ranges || !ranges.length) return true;
-  const d = clampDeg(x);
-  return ranges.some(([a, b]) => {
-    const A = clampDeg(a);
-    const B = clampDeg(b);
-    if (A <= B) return d >= A && d <= B;
-    // wrapped interval (e.g., 300..30)
-    return d >= A || d <= B;
-  });
-}
-
-export function scoreHeading(
-  windFromDeg: number,
-  windSpeed: number,
-  headingDeg: number,
-  crosswindPenalty = 0.4
-) {
-  // Convert meteorological wind (FROM) to vector direction (TOWARD)
-  const windTowardDeg = clampDeg(windFromDeg + 180);
-  const delta = angleDiff(headingDeg, windTowardDeg); // heading vs wind vector
-  const tail = windSpeed * Math.cos(toRad(delta));
-  const cross = Math.abs(windSpeed * Math.sin(toRad(delta)));
-  const score = tail - crosswindPenalty * cross;
-  return { score, tailComponent: tail, crossComponent: cross, windTowardDeg };
-}
-
-export function recommendHeadings(
-  windFromDeg: number,
-  windSpeed: number,
-  opts: RecommendOptions = {}
-): Recommendation[] {
-  const {
-    resolutionDeg = 5,
-    crosswindPenalty = 0.4,
-    allowedHeadings,
-    minSeparationDeg = 15,
-    topK = 3,
-  } = opts;
-
-  const candidates: Recommendation[] = [];
-  for (let h = 0; h < 360; h += resolutionDeg) {
-    if (!inIntervals(h, allowedHeadings)) continue;
-    const { score, tailComponent, crossComponent, windTowardDeg } = scoreHeading(
-      windFromDeg,
-      windSpeed,
-      h,
-      crosswindPenalty
-    );
-    candidates.push({
-      headingDeg: h,
-      headingLabel: bearingToCompass(h),
-      score,
-      tailComponent,
-      crossComponent,
-      windTowardDeg,
-    });
-  }
-
-  // Sort by score descending
-  candidates.sort((a, b) => b.score - a.score);
-
-  // Deduplicate near-duplicates to ensure varied bearings
-  const picked: Recommendation[] = [];
-  for (const c of candidates) {
-    if (picked.length >= topK) break;
-    const tooClose = picked.some(p => Math.abs(angleDiff(p.headingDeg, c.headingDeg)) < minSeparationDeg);
-    if (!tooClose) picked.push(c);
-  }
-  return picked;
-}
-
 // -------------------- React component --------------------
 export type BestWindDirectionProps = {
   windFromDeg: number;  // wind direction FROM (0-360)
   windSpeed: number;    // any units
+  gustSpeed?: number | null; // same units as windSpeed
   unitsLabel?: string;  // e.g., 'mph', 'km/h', 'm/s'
   options?: RecommendOptions;
-  onPick?: (headingDeg: number) => void; // callback if user clicks a suggestion
+  onPick?: (headingDeg: number | null) => void; // callback if user clicks a suggestion (null = clear)
+  selectedHeadingDeg?: number | null; // highlight the heading currently in use
+  subtitle?: string;    // e.g. forecast time
 };
 
 export default function BestWindDirection({
   windFromDeg,
   windSpeed,
+  gustSpeed = null,
   unitsLabel = '',
   options,
   onPick,
+  selectedHeadingDeg = null,
+  subtitle,
 }: BestWindDirectionProps) {
-  const top = useMemo(() => recommendHeadings(windFromDeg, windSpeed, options), [windFromDeg, windSpeed, options]);
+  const top = useMemo(
+    () => recommendHeadings(windFromDeg, windSpeed, { ...options, gustSpeed }),
+    [windFromDeg, windSpeed, gustSpeed, options]
+  );
   const windTowardDeg = clampDeg(windFromDeg + 180);
   const windFromLabel = bearingToCompass(windFromDeg);
   const windTowardLabel = bearingToCompass(windTowardDeg);
@@ -167,9 +70,16 @@ export default function BestWindDirection({
           <p className="text-sm mt-1 text-slate-600 dark:text-slate-400">
             Wind <span className="font-medium">from {Math.round(windFromDeg)}° ({windFromLabel})</span>
             {" "}toward <span className="font-medium">{Math.round(windTowardDeg)}° ({windTowardLabel})</span>
-            {unitsLabel ? ` · ${windSpeed} ${unitsLabel}` : ''}
+            {unitsLabel ? ` · ${windSpeed.toFixed(1)} ${unitsLabel}` : ''}
+            {unitsLabel && gustSpeed != null ? `, gusts ${gustSpeed.toFixed(1)} ${unitsLabel}` : ''}
           </p>
+          {subtitle && <p className="text-xs mt-1 text-slate-500 dark:text-slate-400">{subtitle}</p>}
         </div>
+        {selectedHeadingDeg != null && onPick && (
+          <button type="button" onClick={() => onPick(null)} className="shrink-0 rounded-full border border-slate-300 px-3 py-1 text-xs dark:border-slate-700">
+            Clear course ({Math.round(selectedHeadingDeg)}°)
+          </button>
+        )}
       </div>
 
       <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
@@ -177,7 +87,8 @@ export default function BestWindDirection({
           <button
             key={idx}
             onClick={() => onPick?.(r.headingDeg)}
-            className="group text-left rounded-xl border border-slate-200 dark:border-slate-800 p-4 bg-white dark:bg-slate-950 hover:shadow-md transition-shadow"
+            aria-pressed={selectedHeadingDeg === r.headingDeg}
+            className={`group text-left rounded-xl border p-4 bg-white dark:bg-slate-950 hover:shadow-md transition-shadow ${selectedHeadingDeg === r.headingDeg ? 'border-sky-400 ring-2 ring-sky-400' : 'border-slate-200 dark:border-slate-800'}`}
           >
             <div className="flex items-center gap-3">
               <Arrow directionDeg={r.headingDeg} />
@@ -189,6 +100,9 @@ export default function BestWindDirection({
             <div className="mt-2 text-xs text-slate-600 dark:text-slate-400 leading-5">
               <div>Tailwind: <span className="font-medium">{r.tailComponent.toFixed(1)}</span> {unitsLabel}</div>
               <div>Crosswind: <span className="font-medium">{r.crossComponent.toFixed(1)}</span> {unitsLabel}</div>
+              {r.gustCrossComponent != null && (
+                <div>Gust crosswind: <span className="font-medium">{r.gustCrossComponent.toFixed(1)}</span> {unitsLabel}</div>
+              )}
             </div>
             <div className="mt-2 text-xs text-slate-500 dark:text-slate-400">
               Score: <span className="font-medium">{r.score.toFixed(2)}</span>
@@ -198,7 +112,7 @@ export default function BestWindDirection({
       </div>
 
       <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
-        Tip: For out‑and‑back rides, consider starting slightly <em>into</em> the wind and returning with a tailwind. For loops, prefer the first pick above.
+        Pick a heading to use it as your course in the Wind card. Tip: For out‑and‑back rides, consider starting slightly <em>into</em> the wind and returning with a tailwind. For loops, load the route (GPX or waypoints) to compare clockwise and counter-clockwise at different start times.
       </p>
     </div>
   );
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import type { CalibrationPoint, FitResult } from '../lib/calibration';
+import { toPsi, unitFormat } from '../lib/units';
+import type { UnitPrefs } from '../lib/units';
+
+type Props = {
+  units: UnitPrefs;
+  points: CalibrationPoint[];
+  fit: FitResult | null;
+  fitEnabled: boolean;
+  setFitEnabled: (on: boolean) => void;
+  onAdd: (label: string, frontPsi: number, rearPsi: number) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+};
+
+export default function CalibrationPanel({ units, points, fit, fitEnabled, setFitEnabled, onAdd, onRemove, onClear }: Props) {
+  const [label, setLabel] = useState('');
+  // Entered in the display unit, stored as psi
+  const [front, setFront] = useState<number>(0);
+  const [rear, setRear] = useState<number>(0);
+  const canAdd = front > 0 && rear > 0;
+  const fmt = unitFormat(units);
+
+  function add() {
+    onAdd(label.trim() || `Setup ${points.length + 1}`, toPsi(front, units.pressure), toPsi(rear, units.pressure));
+    setLabel('');
+    setFront(0);
+    setRear(0);
+  }
+
+  return (
+    <details className="rounded-2xl border border-slate-200 bg-white/70 p-5 shadow-xl dark:border-slate-800 dark:bg-slate-900/50">
+      <summary className="cursor-pointer text-sm font-semibold text-slate-700 dark:text-slate-300">
+        Personal calibration{points.length > 0 && ` (${points.length} data point${points.length === 1 ? '' : 's'})`}
+      </summary>
+      <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+        Enter pressures that felt right on the setup currently in the form. The stock model is fitted to your data points
+        (scale on K plus a pressure offset) and applied to every recommendation.
+      </p>
+
+      <div className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-4 md:items-end">
+        <div className="md:col-span-2">
+          <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Label (optional)</label>
+          <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="e.g. Sunday gravel loop" className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-700 dark:bg-slate-950" />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Front ({fmt.pressureUnit})</label>
+          <input type="number" min={0} step={units.pressureStep} value={front || ''} onChange={(e) => setFront(Number(e.target.value))} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-700 dark:bg-slate-950" />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Rear ({fmt.pressureUnit})</label>
+          <input type="number" min={0} step={units.pressureStep} value={rear || ''} onChange={(e) => setRear(Number(e.target.value))} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-700 dark:bg-slate-950" />
+        </div>
+      </div>
+      <button type="button" disabled={!canAdd} onClick={add} className="mt-2 rounded-full border border-sky-400 px-3 py-1 text-sm disabled:opacity-50">Add data point for current setup</button>
+
+      {points.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {points.map(p => (
+            <li key={p.id} className="flex items-center justify-between gap-2 rounded-lg bg-slate-100 px-3 py-1.5 dark:bg-slate-800">
+              <span>
+                <strong>{p.label}</strong> — {fmt.pressureNumber(p.front.psi)} / {fmt.pressure(p.rear.psi)}
+                <span className="text-xs text-slate-500"> · {p.front.tireWidthMm}/{p.rear.tireWidthMm} mm, {p.front.surface}</span>
+              </span>
+              <button type="button" onClick={() => onRemove(p.id)} aria-label={`Remove ${p.label}`} className="text-xs text-slate-500 hover:text-rose-600">✕</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {fit && (
+        <div className="mt-3 text-sm">
+          <p>
+            Fit: K × <strong>{fit.scale.toFixed(3)}</strong>, offset <strong>{fmt.pressureDelta(fit.offsetPsi)}</strong>
+            <span className="text-xs text-slate-500"> · RMS error {fmt.pressure(fit.rmsePsi)} over {fit.samples} wheels{fit.scaleOnly && ' (scale only — add setups with different pressures to fit an offset)'}</span>
+          </p>
+          <div className="mt-2 flex flex-wrap items-center gap-3">
+            <label className="inline-flex items-center gap-2">
+              <input type="checkbox" checked={fitEnabled} onChange={(e) => setFitEnabled(e.target.checked)} className="h-4 w-4 accent-sky-500" />
+              Apply personal fit
+            </label>
+            <button type="button" onClick={() => window.confirm('Remove all calibration data points?') && onClear()} className="rounded-full border border-slate-300 px-3 py-1 text-xs dark:border-slate-700">Clear data</button>
+          </div>
+        </div>
+      )}
+    </details>
+  );
+}
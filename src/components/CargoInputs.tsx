@@ -0,0 +1,34 @@
+import { CARGO_PLACEMENTS, CARGO_PLACEMENT_LABELS } from '../constants';
+import type { CargoItem, CargoPlacement } from '../constants';
+
+type Props = {
+  cargo: CargoItem[];
+  setCargo: (items: CargoItem[]) => void;
+  unitWeight: 'lbs' | 'kg';
+};
+
+export default function CargoInputs({ cargo, setCargo, unitWeight }: Props) {
+  const updateAt = (i: number, patch: Partial<CargoItem>) =>
+    setCargo(cargo.map((c, j) => (j === i ? { ...c, ...patch } : c)));
+
+  return (
+    <div className="mt-3">
+      {cargo.map((item, i) => (
+        <div key={i} className="mb-2 flex items-end gap-2">
+          <div className="flex-1">
+            <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Bag / cargo placement</label>
+            <select value={item.placement} onChange={(e) => updateAt(i, { placement: e.target.value as CargoPlacement })} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-700 dark:bg-slate-950">
+              {CARGO_PLACEMENTS.map(p => <option key={p} value={p}>{CARGO_PLACEMENT_LABELS[p]}</option>)}
+            </select>
+          </div>
+          <div className="w-28">
+            <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Weight ({unitWeight})</label>
+            <input type="number" min={0} step={0.1} value={item.weight} onChange={(e) => updateAt(i, { weight: Number(e.target.value) })} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950" />
+          </div>
+          <button type="button" onClick={() => setCargo(cargo.filter((_, j) => j !== i))} aria-label="Remove cargo item" className="rounded-full border border-slate-300 px-3 py-2 text-sm dark:border-slate-700">✕</button>
+        </div>
+      ))}
+      <button type="button" onClick={() => setCargo([...cargo, { placement: 'frame', weight: 0 }])} className="rounded-full border border-slate-300 px-3 py-1 text-sm dark:border-slate-700">+ Add bag / cargo</button>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { CONDITION_MODES } from '../lib/conditions';
+import type { ConditionMode, ForecastConditions } from '../lib/conditions';
+
+type Props = {
+  wetMode: ConditionMode;
+  setWetMode: (m: ConditionMode) => void;
+  nightMode: ConditionMode;
+  setNightMode: (m: ConditionMode) => void;
+  forecast: ForecastConditions | null;
+  notes: string[];           // active modifiers, from describeConditions
+};
+
+export default function ConditionsCard({ wetMode, setWetMode, nightMode, setNightMode, forecast, notes }: Props) {
+  const wetForecast = forecast?.wet == null ? 'no forecast' : forecast.wet ? 'rain forecast' : 'dry forecast';
+  const nightForecast = forecast?.night == null ? 'no forecast' : forecast.night ? 'dark' : 'daylight';
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60 p-4">
+      <h3 className="font-semibold">Ride Conditions</h3>
+      <div className="mt-2 grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <ModeButtons label="Wet roads" labels={{ auto: `Auto (${wetForecast})`, on: 'Wet', off: 'Dry' }} mode={wetMode} setMode={setWetMode} />
+        <ModeButtons label="Night ride" labels={{ auto: `Auto (${nightForecast})`, on: 'Night', off: 'Day' }} mode={nightMode} setMode={setNightMode} />
+      </div>
+      <p className="text-xs mt-2 text-slate-500">
+        {notes.length ? notes.join(' ') : 'No condition adjustments applied.'}
+      </p>
+    </div>
+  );
+}
+
+function ModeButtons({ label, labels, mode, setMode }: {
+  label: string;
+  labels: Record<ConditionMode, string>;
+  mode: ConditionMode;
+  setMode: (m: ConditionMode) => void;
+}) {
+  return (
+    <div>
+      <div className="mb-1 text-xs text-slate-500 dark:text-slate-400">{label}</div>
+      <div className="flex flex-wrap gap-2">
+        {CONDITION_MODES.map(m => (
+          <button key={m} type="button" onClick={() => setMode(m)} aria-pressed={mode === m} className={`rounded-full border px-3 py-1 text-sm ${mode === m ? 'border-sky-400 ring-2 ring-sky-400' : 'border-slate-300 dark:border-slate-700'}`}>
+            {labels[m]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
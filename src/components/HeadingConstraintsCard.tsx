@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { bearingToCompass } from '../lib/heading';
+import type { Route } from '../lib/gpx';
+import { parseHeading, routeHeadings } from '../lib/headingConstraints';
+import type { HeadingConstraint } from '../lib/headingConstraints';
+
+type Props = {
+  constraint: HeadingConstraint;
+  onChange: (c: HeadingConstraint) => void;
+  route: Route | null;
+  locationLabel: string;
+};
+
+const btn = 'rounded-full border border-slate-300 px-3 py-1 text-sm disabled:opacity-50 dark:border-slate-700';
+
+export default function HeadingConstraintsCard({ constraint, onChange, route, locationLabel }: Props) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  function addHeadings(list: number[]) {
+    const merged = [...constraint.headings];
+    for (const h of list) {
+      if (!merged.some(m => Math.abs(m - h) < 1)) merged.push(h);
+    }
+    onChange({ ...constraint, headings: merged });
+  }
+
+  function submit() {
+    const parsed = text.split(/[\s,;]+/).filter(Boolean).map(parseHeading);
+    if (!parsed.length || parsed.some(h => h === null)) {
+      setError('Enter bearings in degrees (e.g. 45, 270) or compass points (NE, W).');
+      return;
+    }
+    setError(null);
+    setText('');
+    addHeadings(parsed as number[]);
+  }
+
+  function importRoute() {
+    if (!route) return;
+    const found = routeHeadings(route.points);
+    if (!found.length) setError('No dominant headings found in the route.');
+    else addHeadings(found);
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60 p-4">
+      <h3 className="font-semibold">Rideable Headings</h3>
+      <p className="text-sm mt-1 text-slate-600 dark:text-slate-400">
+        Bearings of the roads you can actually ride from <strong>{locationLabel}</strong>. “Best Direction to Ride” only suggests headings within ±{constraint.toleranceDeg}° of these. Saved for this location.
+      </p>
+
+      <form className="mt-3 flex flex-wrap gap-2" onSubmit={(e) => { e.preventDefault(); submit(); }}>
+        <input value={text} onChange={(e) => setText(e.target.value)} placeholder="e.g. 45, 180 or NE W" aria-label="Headings" className="min-w-0 flex-1 rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-700 dark:bg-slate-950" />
+        <button type="submit" className={btn}>Add</button>
+        <button type="button" onClick={importRoute} disabled={!route} title={route ? `Use headings from ${route.name}` : 'Load a route first'} className={btn}>From route</button>
+      </form>
+      {error && <p className="text-sm mt-2 text-rose-600">{error}</p>}
+
+      {constraint.headings.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {constraint.headings.map(h => (
+            <span key={h} className="inline-flex items-center gap-1 rounded-full border border-sky-400 px-3 py-1 text-xs">
+              {Math.round(h)}° {bearingToCompass(h)}
+              <button type="button" onClick={() => onChange({ ...constraint, headings: constraint.headings.filter(x => x !== h) })} aria-label={`Remove ${Math.round(h)}°`} className="text-slate-400 hover:text-rose-600">✕</button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+        <label className="inline-flex items-center gap-2">
+          Tolerance ±
+          <input type="range" min={5} max={45} step={5} value={constraint.toleranceDeg} onChange={(e) => onChange({ ...constraint, toleranceDeg: Number(e.target.value) })} className="accent-sky-500" />
+          {constraint.toleranceDeg}°
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input type="checkbox" checked={constraint.bidirectional} onChange={(e) => onChange({ ...constraint, bidirectional: e.target.checked })} className="h-4 w-4 accent-sky-500" />
+          Both directions
+        </label>
+        <button type="button" disabled={!constraint.headings.length} onClick={() => onChange({ ...constraint, headings: [] })} className={btn}>Clear</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { fromC, toC } from '../lib/units';
+import type { UnitPrefs } from '../lib/units';
+
+type Props = {
+  units: UnitPrefs;
+  refTempC: number;
+  setRefTempC: (v: number) => void;
+  indoorTempC: number | null;          // null = inflate outdoors at ride temperature
+  setIndoorTempC: (v: number | null) => void;
+};
+
+const input = 'w-20 rounded-xl border border-slate-300 bg-white px-2 py-1 text-sm dark:border-slate-700 dark:bg-slate-950';
+
+export default function InflationTempInputs({ units, refTempC, setRefTempC, indoorTempC, setIndoorTempC }: Props) {
+  // Inputs are in the display unit; state stays in °C
+  const shown = (c: number) => Math.round(fromC(c, units.temperature) * 10) / 10;
+  const unit = `°${units.temperature}`;
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-600 dark:text-slate-400">
+      <label title="Temperature the recommended pressures are tuned for">
+        Targets tuned at{' '}
+        <input type="number" step={1} value={shown(refTempC)} onChange={(e) => setRefTempC(toC(Number(e.target.value), units.temperature))} className={input} /> {unit}
+      </label>
+      <label className="inline-flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={indoorTempC !== null}
+          onChange={(e) => setIndoorTempC(e.target.checked ? 20 : null)}
+          className="h-4 w-4 accent-sky-500"
+        />
+        Pumping indoors at
+      </label>
+      {indoorTempC !== null && (
+        <label>
+          <input type="number" step={1} value={shown(indoorTempC)} onChange={(e) => setIndoorTempC(toC(Number(e.target.value), units.temperature))} aria-label="Indoor temperature" className={input} /> {unit}
+        </label>
+      )}
+    </div>
+  );
+}
@@ -1,27 +1,59 @@
-import { PRESETS, SPEEDS, SURFACES, TIRE_TYPES, WHEEL_DIAMETERS, WEIGHT_SPLITS } from '../constants';
-import type { Speed, Surface, TireType, WheelDiameter } from '../constants';
+import { LBS_PER_KG, PRESETS, RIM_TYPE_LABELS, RIM_TYPES, SPEEDS, SURFACES, TIRE_TYPES, WHEEL_DIAMETERS } from '../constants';
+import WeightSplitInput from './WeightSplitInput';
+import ProfilesBar from './ProfilesBar';
+import type { ProfileStore } from '../hooks/useProfiles';
+import type { ProfileSettings } from '../lib/profiles';
+import type { CargoItem, RimType, Speed, Surface, TireType, WheelDiameter } from '../constants';
+import type { WheelLoads } from '../lib/calc';
+import CargoInputs from './CargoInputs';
+import { etrtoTireRange } from '../lib/wheelLimits';
+import type { RimSetup, TireLimits } from '../lib/wheelLimits';
+import { fromPsi, toPsi } from '../lib/units';
+import type { PressureUnit } from '../lib/units';
 
 export type InputsFormProps = {
   unitWeight: 'lbs'|'kg';
   setUnitWeight: (v: 'lbs'|'kg') => void;
-  systemWeight: number;
-  setSystemWeight: (n: number) => void;
+  riderWeight: number; setRiderWeight: (n: number) => void;
+  bikeWeight: number; setBikeWeight: (n: number) => void;
+  cargo: CargoItem[]; setCargo: (items: CargoItem[]) => void;
+  loads: WheelLoads;
   surface: Surface; setSurface: (s: Surface) => void;
   tireWidthMm: number; setTireWidthMm: (n: number) => void;
   wheelDiameter: WheelDiameter; setWheelDiameter: (w: WheelDiameter) => void;
   tireType: TireType; setTireType: (t: TireType) => void;
+  sameTires: boolean; setSameTires: (same: boolean) => void;
+  rearTireWidthMm: number; setRearTireWidthMm: (n: number) => void;
+  rearWheelDiameter: WheelDiameter; setRearWheelDiameter: (w: WheelDiameter) => void;
+  rearTireType: TireType; setRearTireType: (t: TireType) => void;
+  rim: RimSetup; setRim: (r: RimSetup) => void;
+  pressureUnit: PressureUnit;
+  tireLimits: TireLimits; setTireLimits: (l: TireLimits) => void;
+  rearTireLimits: TireLimits; setRearTireLimits: (l: TireLimits) => void;
   speed: Speed; setSpeed: (s: Speed) => void;
-  splitLabel: string; setSplitLabel: (s: string) => void;
+  frontPct: number; setFrontPct: (pct: number) => void;
   presetName: string; applyPreset: (name: string) => void;
   weightValid: boolean;
+  profileStore: ProfileStore;
+  currentSettings: ProfileSettings;
+  applySettings: (s: ProfileSettings) => void;
 };
 
+// Empty or non-positive means "not set"
+const optionalPositive = (text: string) => (Number(text) > 0 ? Number(text) : null);
+
+const fmtWeight = (lbs: number, unit: 'lbs'|'kg') =>
+  `${(unit === 'lbs' ? lbs : lbs / LBS_PER_KG).toFixed(1)} ${unit}`;
+
 export default function InputsForm(props: InputsFormProps) {
-  const { unitWeight, setUnitWeight, systemWeight, setSystemWeight, surface, setSurface, tireWidthMm, setTireWidthMm, wheelDiameter, setWheelDiameter, tireType, setTireType, speed, setSpeed, splitLabel, setSplitLabel, presetName, applyPreset, weightValid } = props;
+  const { unitWeight, setUnitWeight, riderWeight, setRiderWeight, bikeWeight, setBikeWeight, cargo, setCargo, loads, surface, setSurface, tireWidthMm, setTireWidthMm, wheelDiameter, setWheelDiameter, tireType, setTireType, sameTires, setSameTires, rearTireWidthMm, setRearTireWidthMm, rearWheelDiameter, setRearWheelDiameter, rearTireType, setRearTireType, rim, setRim, pressureUnit, tireLimits, setTireLimits, rearTireLimits, setRearTireLimits, speed, setSpeed, frontPct, setFrontPct, presetName, applyPreset, weightValid, profileStore, currentSettings, applySettings } = props;
+
+  const etrtoRange = etrtoTireRange(rim);
 
   return (
     <div className="rounded-2xl border border-slate-200 bg-white/70 p-5 shadow-xl backdrop-blur dark:border-slate-800 dark:bg-slate-900/50">
       <div className="mb-4 flex flex-wrap items-end gap-3">
+        <ProfilesBar store={profileStore} currentSettings={currentSettings} applySettings={applySettings} />
         <div>
           <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Preset</label>
           <select value={presetName} onChange={(e) => applyPreset(e.target.value)} className="w-48 rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-700 dark:bg-slate-950">
@@ -32,46 +64,74 @@ export default function InputsForm(props: InputsFormProps) {
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {/* System weight */}
+        {/* Weight components */}
         <div className="md:col-span-2">
-          <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">Total System Weight (Rider + Bike + Gear)</label>
-          <div className="flex gap-2">
-            <input type="number" min={unitWeight === 'lbs' ? 75 : 34} max={unitWeight === 'lbs' ? 450 : 205} value={systemWeight} onChange={(e) => setSystemWeight(Number(e.target.value))} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-slate-900 outline-none focus:ring-2 focus:ring-sky-500 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100" aria-invalid={!weightValid} />
+          <div className="mb-1 flex items-center justify-between gap-2">
+            <span className="text-sm text-slate-700 dark:text-slate-300">Weight</span>
             <div className="flex gap-2">
-              <button type="button" onClick={() => setUnitWeight('lbs')} aria-pressed={unitWeight === 'lbs'} className={`rounded-full border px-3 py-2 text-sm ${unitWeight === 'lbs' ? 'border-sky-400 ring-2 ring-sky-400' : 'border-slate-300 dark:border-slate-700'}`}>lbs</button>
-              <button type="button" onClick={() => setUnitWeight('kg')} aria-pressed={unitWeight === 'kg'} className={`rounded-full border px-3 py-2 text-sm ${unitWeight === 'kg' ? 'border-sky-400 ring-2 ring-sky-400' : 'border-slate-300 dark:border-slate-700'}`}>kg</button>
+              <button type="button" onClick={() => setUnitWeight('lbs')} aria-pressed={unitWeight === 'lbs'} className={`rounded-full border px-3 py-1 text-sm ${unitWeight === 'lbs' ? 'border-sky-400 ring-2 ring-sky-400' : 'border-slate-300 dark:border-slate-700'}`}>lbs</button>
+              <button type="button" onClick={() => setUnitWeight('kg')} aria-pressed={unitWeight === 'kg'} className={`rounded-full border px-3 py-1 text-sm ${unitWeight === 'kg' ? 'border-sky-400 ring-2 ring-sky-400' : 'border-slate-300 dark:border-slate-700'}`}>kg</button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Rider ({unitWeight})</label>
+              <input type="number" min={0} value={riderWeight} onChange={(e) => setRiderWeight(Number(e.target.value))} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-slate-900 outline-none focus:ring-2 focus:ring-sky-500 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100" aria-invalid={!weightValid} />
+            </div>
+            <div>
+              <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Bike ({unitWeight})</label>
+              <input type="number" min={0} value={bikeWeight} onChange={(e) => setBikeWeight(Number(e.target.value))} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-slate-900 outline-none focus:ring-2 focus:ring-sky-500 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100" aria-invalid={!weightValid} />
             </div>
           </div>
-          {!weightValid && <p className="mt-1 text-xs text-amber-700 dark:text-amber-300">Weight should be between 75–450 lbs (34–205 kg).</p>}
+          <CargoInputs cargo={cargo} setCargo={setCargo} unitWeight={unitWeight} />
+          <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+            Total {fmtWeight(loads.totalLbs, unitWeight)} · Front {fmtWeight(loads.frontLbs, unitWeight)} / Rear {fmtWeight(loads.rearLbs, unitWeight)}
+          </p>
+          {!weightValid && <p className="mt-1 text-xs text-amber-700 dark:text-amber-300">Total weight should be between 75–450 lbs (34–205 kg).</p>}
         </div>
 
-        {/* Surface */}
-        <div>
-          <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">Surface Condition</label>
-          <select value={surface} onChange={(e) => setSurface(e.target.value as any)} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950">
-            {SURFACES.map((s) => <option key={s} value={s}>{s}</option>)}
-          </select>
+        {/* Tires */}
+        <div className="md:col-span-2">
+          <label className="inline-flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <input type="checkbox" checked={sameTires} onChange={(e) => setSameTires(e.target.checked)} className="h-4 w-4 accent-sky-500" />
+            Same front/rear tires
+          </label>
         </div>
+        <TireFields
+          label={sameTires ? '' : 'Front'}
+          tireWidthMm={tireWidthMm} setTireWidthMm={setTireWidthMm}
+          wheelDiameter={wheelDiameter} setWheelDiameter={setWheelDiameter}
+          tireType={tireType} setTireType={setTireType}
+          limits={tireLimits} setLimits={setTireLimits} pressureUnit={pressureUnit}
+        />
+        {!sameTires && (
+          <TireFields
+            label="Rear"
+            tireWidthMm={rearTireWidthMm} setTireWidthMm={setRearTireWidthMm}
+            wheelDiameter={rearWheelDiameter} setWheelDiameter={setRearWheelDiameter}
+            tireType={rearTireType} setTireType={setRearTireType}
+            limits={rearTireLimits} setLimits={setRearTireLimits} pressureUnit={pressureUnit}
+          />
+        )}
 
-        {/* Tire width */}
+        {/* Rim */}
         <div>
-          <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">Measured Tire Width (mm)</label>
-          <input type="number" min={20} max={90} value={tireWidthMm} onChange={(e) => setTireWidthMm(Number(e.target.value))} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950"/>
+          <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">Rim Type</label>
+          <select value={rim.rimType} onChange={(e) => setRim({ ...rim, rimType: e.target.value as RimType })} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950">
+            {RIM_TYPES.map((r) => <option key={r} value={r}>{RIM_TYPE_LABELS[r]}</option>)}
+          </select>
         </div>
-
-        {/* Wheel diameter */}
         <div>
-          <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">Wheel Diameter</label>
-          <select value={wheelDiameter} onChange={(e) => setWheelDiameter(e.target.value as any)} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950">
-            {WHEEL_DIAMETERS.map((w) => <option key={w} value={w}>{w}</option>)}
-          </select>
+          <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">Rim Internal Width (mm)</label>
+          <input type="number" min={10} max={50} placeholder="optional" value={rim.internalWidthMm ?? ''} disabled={rim.rimType === 'tubular'} onChange={(e) => setRim({ ...rim, internalWidthMm: optionalPositive(e.target.value) })} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 disabled:opacity-50 dark:border-slate-700 dark:bg-slate-950"/>
+          {etrtoRange && <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">ETRTO tire width {etrtoRange.minMm}–{etrtoRange.maxMm} mm</p>}
         </div>
 
-        {/* Tire type */}
+        {/* Surface */}
         <div>
-          <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">Tire Type</label>
-          <select value={tireType} onChange={(e) => setTireType(e.target.value as any)} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950">
-            {TIRE_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+          <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">Surface Condition</label>
+          <select value={surface} onChange={(e) => setSurface(e.target.value as any)} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950">
+            {SURFACES.map((s) => <option key={s} value={s}>{s}</option>)}
           </select>
         </div>
 
@@ -84,15 +144,63 @@ export default function InputsForm(props: InputsFormProps) {
         </div>
 
         {/* Weight split */}
-        <div>
-          <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">Weight Distribution</label>
-          <select value={splitLabel} onChange={(e) => setSplitLabel(e.target.value)} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950">
-            {WEIGHT_SPLITS.map((s) => <option key={s.label} value={s.label}>{s.label}</option>)}
-          </select>
+        <div className="md:col-span-2">
+          <WeightSplitInput frontPct={frontPct} setFrontPct={setFrontPct} />
         </div>
       </div>
 
       <p className="mt-4 text-xs text-amber-700 dark:text-amber-300">Safety note: These are heuristic suggestions. Always follow tire and rim manufacturer limits.</p>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function TireFields({ label, tireWidthMm, setTireWidthMm, wheelDiameter, setWheelDiameter, tireType, setTireType, limits, setLimits, pressureUnit }: {
+  label: string;
+  tireWidthMm: number; setTireWidthMm: (n: number) => void;
+  wheelDiameter: WheelDiameter; setWheelDiameter: (w: WheelDiameter) => void;
+  tireType: TireType; setTireType: (t: TireType) => void;
+  limits: TireLimits; setLimits: (l: TireLimits) => void;
+  pressureUnit: PressureUnit;
+}) {
+  const prefix = label ? `${label} ` : '';
+  // Limits are stored in psi but entered as printed, in the display unit
+  const shown = (psi: number | null) => (psi == null ? '' : Number(fromPsi(psi, pressureUnit).toFixed(3)));
+  const parsed = (text: string) => {
+    const v = optionalPositive(text);
+    return v == null ? null : toPsi(v, pressureUnit);
+  };
+  return (
+    <>
+      {/* Tire width */}
+      <div>
+        <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">{prefix}Measured Tire Width (mm)</label>
+        <input type="number" min={20} max={90} value={tireWidthMm} onChange={(e) => setTireWidthMm(Number(e.target.value))} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950"/>
+      </div>
+
+      {/* Wheel diameter */}
+      <div>
+        <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">{prefix}Wheel Diameter</label>
+        <select value={wheelDiameter} onChange={(e) => setWheelDiameter(e.target.value as WheelDiameter)} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950">
+          {WHEEL_DIAMETERS.map((w) => <option key={w} value={w}>{w}</option>)}
+        </select>
+      </div>
+
+      {/* Tire type */}
+      <div className="md:col-span-2">
+        <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">{prefix}Tire Type</label>
+        <select value={tireType} onChange={(e) => setTireType(e.target.value as TireType)} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950">
+          {TIRE_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+        </select>
+      </div>
+
+      {/* Printed sidewall limits */}
+      <div className="md:col-span-2">
+        <label className="mb-1 block text-sm text-slate-700 dark:text-slate-300">{prefix}Tire Sidewall Limits ({pressureUnit}, optional)</label>
+        <div className="grid grid-cols-2 gap-3">
+          <input type="number" min={0} placeholder="min" aria-label={`${prefix}tire minimum pressure`} value={shown(limits.minPsi)} onChange={(e) => setLimits({ ...limits, minPsi: parsed(e.target.value) })} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950"/>
+          <input type="number" min={0} placeholder="max" aria-label={`${prefix}tire maximum pressure`} value={shown(limits.maxPsi)} onChange={(e) => setLimits({ ...limits, maxPsi: parsed(e.target.value) })} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950"/>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,10 @@
+import type { LimitWarning } from '../lib/wheelLimits';
+
+/** Rim/tire limit warnings, styled by level. */
+export default function LimitWarnings({ warnings }: { warnings: LimitWarning[] }) {
+  return warnings.map((w, i) => (
+    <p key={i} role={w.level === 'error' ? 'alert' : undefined} className={`mt-3 rounded-lg border px-3 py-2 text-sm ${w.level === 'error' ? 'border-rose-500 bg-rose-50 text-rose-900 dark:bg-rose-950/40 dark:text-rose-200' : 'border-amber-400 bg-amber-50 text-amber-900 dark:bg-amber-950/40 dark:text-amber-200'}`}>
+      {w.level === 'error' ? '⛔ ' : '⚠️ '}{w.message}
+    </p>
+  ));
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import type { LatLng } from '../lib/weather';
+import { formatLatLng, loadPlaces, parseLatLng, savePlaces } from '../lib/places';
+import type { Place } from '../lib/places';
+import { getGeolocation } from '../utils/pressureComp';
+
+type Props = {
+  coords: LatLng | null;   // null = ask the browser for the device location
+  placeName: string;
+  onChange: (coords: LatLng | null, placeName?: string) => void;
+};
+
+const btn = 'rounded-full border border-slate-300 px-3 py-2 text-sm disabled:opacity-50 dark:border-slate-700';
+
+export default function LocationPicker({ coords, placeName, onChange }: Props) {
+  const [places, setPlaces] = useState<Place[]>(() => loadPlaces());
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    savePlaces(places);
+  }, [places]);
+
+  function submit() {
+    const place = places.find(p => p.name.toLowerCase() === text.trim().toLowerCase());
+    const parsed = place ?? parseLatLng(text);
+    if (!parsed) {
+      setError('Enter "lat, lon" (e.g. 39.77, -86.16) or the name of a saved place.');
+      return;
+    }
+    setError(null);
+    setText('');
+    onChange({ lat: parsed.lat, lon: parsed.lon }, place?.name);
+  }
+
+  async function useDevice() {
+    try {
+      setLocating(true);
+      setError(null);
+      onChange(await getGeolocation());
+    } catch (e) {
+      setError(e instanceof Error || e instanceof GeolocationPositionError ? e.message : 'Location unavailable');
+    } finally {
+      setLocating(false);
+    }
+  }
+
+  function saveCurrent() {
+    if (!coords) return;
+    const name = window.prompt('Name this place', placeName || '')?.trim();
+    if (!name) return;
+    setPlaces(list => [...list.filter(p => p.name !== name), { name, ...coords }]);
+    onChange(coords, name);
+  }
+
+  function removePlace(name: string) {
+    setPlaces(list => list.filter(p => p.name !== name));
+    if (name === placeName && coords) onChange(coords);
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60 p-4">
+      <h3 className="font-semibold">Location</h3>
+      <p className="text-sm mt-1 text-slate-600 dark:text-slate-400">
+        {coords
+          ? <>Using <strong>{placeName || formatLatLng(coords)}</strong>{placeName && <> ({formatLatLng(coords)})</>}</>
+          : 'Using this device’s location (browser permission).'}
+      </p>
+
+      <form className="mt-3 flex flex-wrap gap-2" onSubmit={(e) => { e.preventDefault(); submit(); }}>
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          list="saved-places"
+          placeholder="lat, lon or saved place"
+          aria-label="Location"
+          className="min-w-0 flex-1 rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-700 dark:bg-slate-950"
+        />
+        <datalist id="saved-places">
+          {places.map(p => <option key={p.name} value={p.name}>{formatLatLng(p)}</option>)}
+        </datalist>
+        <button type="submit" className={btn}>Set</button>
+        <button type="button" onClick={useDevice} disabled={locating} className={btn}>{locating ? 'Locating…' : 'Use my location'}</button>
+      </form>
+      {error && <p className="text-sm mt-2 text-rose-600">{error}</p>}
+
+      <div className="mt-2 flex flex-wrap gap-2">
+        <button type="button" onClick={saveCurrent} disabled={!coords} className={btn}>Save place</button>
+        <button type="button" onClick={() => onChange(null)} disabled={!coords} className={btn}>Clear</button>
+      </div>
+
+      {places.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {places.map(p => (
+            <span key={p.name} className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs ${p.name === placeName ? 'border-sky-400' : 'border-slate-300 dark:border-slate-700'}`}>
+              <button type="button" onClick={() => onChange({ lat: p.lat, lon: p.lon }, p.name)}>{p.name}</button>
+              <button type="button" onClick={() => removePlace(p.name)} aria-label={`Remove ${p.name}`} className="text-slate-400 hover:text-rose-600">✕</button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
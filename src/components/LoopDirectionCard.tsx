@@ -0,0 +1,79 @@
+// src/components/LoopDirectionCard.tsx
+import { useMemo } from "react";
+import { useForecast } from "../hooks/useForecast";
+import type { Route } from "../lib/gpx";
+import { evaluateLoopOptions, isLoop, LOOP_SCORING } from "../lib/routeWind";
+import { convertWindSpeed } from "../lib/weather";
+import type { WindUnit } from "../lib/weather";
+
+type Props = {
+  route: Route | null;
+  start: Date;
+  avgSpeedKmh: number;
+  unit?: WindUnit;
+};
+
+const fmtStart = (d: Date) => d.toLocaleString(undefined, { weekday: "short", hour: "numeric", minute: "2-digit" });
+
+export default function LoopDirectionCard({ route, start, avgSpeedKmh, unit = "mph" }: Props) {
+  const { data, loading, error } = useForecast(route ? route.points[0] : null);
+
+  const options = useMemo(() => {
+    if (!route || !data || !(avgSpeedKmh > 0)) return null;
+    return evaluateLoopOptions({ points: route.points, hourly: data.hourly, start, avgSpeedKmh });
+  }, [route, data, start, avgSpeedKmh]);
+
+  if (!route) return null;
+  const w = (kmh: number) => convertWindSpeed(kmh, unit).toFixed(1);
+  const best = options?.[0];
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60 p-4">
+      <h3 className="font-semibold">Loop Direction & Start Time</h3>
+      {!isLoop(route.points) && (
+        <p className="text-xs mt-1 text-amber-700 dark:text-amber-300">This route doesn’t end near its start, so “reverse” means riding it from the other end.</p>
+      )}
+      {loading && <p className="text-sm mt-2">Loading forecast…</p>}
+      {error && <p className="text-sm mt-2 text-rose-600">{error}</p>}
+
+      {best && (
+        <p className="text-sm mt-2">
+          Best: ride <strong>{best.clockwise ? "clockwise" : "counter-clockwise"}</strong> ({best.direction === "forward" ? "as loaded" : "reversed"}),
+          starting <strong>{fmtStart(best.start)}</strong> — {w(best.finalTailKmh)} {unit} tailwind over the final {Math.round(LOOP_SCORING.finalFraction * 100)}%.
+        </p>
+      )}
+
+      {options && (
+        <div className="mt-3 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-[11px] uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="py-1 pr-3 text-left font-medium">Direction</th>
+                <th className="py-1 pr-3 text-left font-medium">Start</th>
+                <th className="py-1 pr-3 text-right font-medium">Final tail</th>
+                <th className="py-1 pr-3 text-right font-medium">Overall tail</th>
+                <th className="py-1 pr-3 text-right font-medium">Crosswind</th>
+                <th className="py-1 text-right font-medium">Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {options.map((o, i) => (
+                <tr key={`${o.direction}-${o.start.getTime()}`} className={i === 0 ? "bg-sky-100/70 font-semibold dark:bg-sky-900/40" : "border-t border-slate-200 dark:border-slate-800"}>
+                  <td className="py-1 pr-3">{o.clockwise ? "CW" : "CCW"}</td>
+                  <td className="py-1 pr-3">{fmtStart(o.start)}</td>
+                  <td className="py-1 pr-3 text-right">{w(o.finalTailKmh)}</td>
+                  <td className="py-1 pr-3 text-right">{w(o.overallTailKmh)}</td>
+                  <td className="py-1 pr-3 text-right">{w(o.avgCrosswindKmh)}</td>
+                  <td className="py-1 text-right">{w(o.score)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-slate-500 mt-2">
+            Wind in {unit}; negative tail = headwind. Score = {LOOP_SCORING.finalWeight} × final tail + {LOOP_SCORING.overallWeight} × overall tail − {LOOP_SCORING.crosswindPenalty} × crosswind.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
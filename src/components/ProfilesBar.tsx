@@ -0,0 +1,85 @@
+import { useRef, useState } from 'react';
+import type { ProfileStore } from '../hooks/useProfiles';
+import { exportProfilesJson } from '../lib/profiles';
+import type { ProfileSettings } from '../lib/profiles';
+
+type Props = {
+  store: ProfileStore;
+  currentSettings: ProfileSettings;
+  applySettings: (s: ProfileSettings) => void;
+};
+
+const btn = 'rounded-full border border-slate-300 px-3 py-2 text-sm disabled:opacity-50 dark:border-slate-700';
+
+export default function ProfilesBar({ store, currentSettings, applySettings }: Props) {
+  const { profiles, active } = store;
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const dirty = active != null && JSON.stringify(active.settings) !== JSON.stringify(currentSettings);
+
+  function select(id: string) {
+    setMessage(null);
+    const p = profiles.find(p => p.id === id);
+    store.select(p ? p.id : null);
+    if (p) applySettings(p.settings);
+  }
+
+  function createNew() {
+    const name = window.prompt('Profile name', `Bike ${profiles.length + 1}`);
+    if (name && name.trim()) store.create(name.trim(), currentSettings);
+  }
+
+  function remove() {
+    if (active && window.confirm(`Delete profile "${active.name}"?`)) store.remove(active.id);
+  }
+
+  function exportFile() {
+    const blob = new Blob([exportProfilesJson(profiles)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'tire-pressure-profiles.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function importFile(file: File | undefined) {
+    if (!file) return;
+    try {
+      const n = store.importJson(await file.text());
+      setMessage({ text: `Imported ${n} profile${n === 1 ? '' : 's'}.` });
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : 'Import failed', error: true });
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  }
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Profile{dirty && ' (unsaved changes)'}</label>
+          <select value={active?.id ?? ''} onChange={(e) => select(e.target.value)} className="w-48 rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-700 dark:bg-slate-950">
+            <option value="">None</option>
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </div>
+        {active && (
+          <div>
+            <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Name</label>
+            <input value={active.name} onChange={(e) => store.rename(active.id, e.target.value)} className="w-40 rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-700 dark:bg-slate-950" />
+          </div>
+        )}
+        <button type="button" onClick={createNew} className={btn}>New</button>
+        <button type="button" disabled={!dirty} onClick={() => active && store.update(active.id, currentSettings)} className={btn}>Save</button>
+        <button type="button" disabled={!active} onClick={() => active && store.duplicate(active.id)} className={btn}>Duplicate</button>
+        <button type="button" disabled={!active} onClick={remove} className={btn}>Delete</button>
+        <button type="button" disabled={!profiles.length} onClick={exportFile} className={btn}>Export</button>
+        <button type="button" onClick={() => fileRef.current?.click()} className={btn}>Import</button>
+        <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={(e) => importFile(e.target.files?.[0])} />
+      </div>
+      {message && <p className={`mt-1 text-xs ${message.error ? 'text-rose-600' : 'text-slate-500 dark:text-slate-400'}`}>{message.text}</p>}
+    </div>
+  );
+}
@@ -1,14 +1,65 @@
+import { toBar } from '../lib/calc';
+import type { PsiStep, PsiTrace, TireGeometry } from '../lib/calc';
+import type { UnitFormat } from '../lib/units';
+import { MODEL_PSI_RANGE } from '../lib/wheelLimits';
+import type { LimitedPsi } from '../lib/wheelLimits';
+import LimitWarnings from './LimitWarnings';
 
-
-export default function ResultCard({ title, psi, bar }: { title: string; psi: number; bar: number }) {
+export default function ResultCard({ title, psi, fmt, geometry, stockPsi, trace, limits, weather, notes = [] }: { title: string; psi: number; fmt: UnitFormat; geometry?: TireGeometry; stockPsi?: number; trace?: PsiTrace; limits?: LimitedPsi; weather?: LimitedPsi; notes?: string[] }) {
+  // Stock vs fitted is compared on the gauge so the difference matches what's shown
+  const fitDelta = stockPsi === undefined ? 0 : fmt.gaugeValue(psi, limits) - fmt.gaugeValue(stockPsi);
+  // The weather-adjusted value is limited again; only its clamp adds a new warning
+  const warnings = [...(limits?.warnings ?? []), ...(weather?.unclampedPsi != null ? weather.warnings : [])]
+    .filter((w, i, all) => all.findIndex(o => o.message === w.message) === i);
+  // The model's own steps, then what happens to its result after it
+  const steps: PsiStep[] = trace ? [...trace.steps] : [];
+  if (trace && limits?.unclampedPsi != null) steps.push({ label: 'Rim / tire pressure limits', psi: limits.psi, deltaPsi: limits.psi - limits.unclampedPsi });
+  if (trace && weather) {
+    const adjusted = weather.unclampedPsi ?? weather.psi;
+    const clamped = weather.unclampedPsi != null;
+    steps.push({ label: `Weather & elevation compensation${clamped ? '' : ' (pump to this now)'}`, psi: adjusted, deltaPsi: adjusted - psi });
+    if (clamped) steps.push({ label: 'Rim / tire pressure limits (pump to this now)', psi: weather.psi, deltaPsi: weather.psi - adjusted });
+  }
   return (
     <div className="rounded-2xl border border-slate-200 bg-white/80 p-5 shadow-xl dark:border-slate-800 dark:bg-slate-900/60">
       <h2 className="mb-3 text-sm font-semibold text-slate-700 dark:text-slate-300">{title}</h2>
       <div className="flex items-baseline gap-3">
-        <div className="text-5xl font-black tracking-tight">{psi}</div>
-        <div className="text-sm text-slate-500 dark:text-slate-400">PSI</div>
+        <div className="text-5xl font-black tracking-tight">{fmt.gaugeNumber(psi, limits)}</div>
+        <div className="text-sm uppercase text-slate-500 dark:text-slate-400">{fmt.pressureUnit}</div>
       </div>
-      <div className="mt-1 text-slate-700 dark:text-slate-300">{bar.toFixed(2)} <span className="text-xs text-slate-500 dark:text-slate-400">BAR</span></div>
+      <div className="mt-1 text-xs text-slate-500 dark:text-slate-400">{fmt.pressureUnit === 'psi' ? `${toBar(psi).toFixed(2)} bar` : `${psi.toFixed(1)} psi`}</div>
+      {stockPsi !== undefined && (
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Personal fit applied · stock model {fmt.gauge(stockPsi)} ({fitDelta >= 0 ? '+' : '−'}{Math.abs(fitDelta).toFixed(fmt.gaugeDigits)} {fmt.pressureUnit})
+        </p>
+      )}
+      {notes.map(n => (
+        <p key={n} className="mt-2 text-xs text-sky-700 dark:text-sky-300">{n}</p>
+      ))}
+      <LimitWarnings warnings={warnings} />
+      {steps.length > 0 && (
+        <details className="mt-3 text-xs text-slate-600 dark:text-slate-400">
+          <summary className="cursor-pointer font-medium">Why this number?</summary>
+          <ol className="mt-2 space-y-1">
+            {steps.map((s, i) => (
+              <li key={i} className="flex justify-between gap-3 border-b border-slate-200 pb-1 last:border-0 dark:border-slate-800">
+                <span>{i + 1}. {s.label}</span>
+                <span className="whitespace-nowrap tabular-nums">
+                  {s.factor !== undefined && `× ${s.factor.toFixed(3)} `}
+                  {s.deltaPsi !== undefined && `${fmt.pressureDelta(s.deltaPsi)} `}
+                  → <strong>{fmt.pressure(s.psi)}</strong>
+                </span>
+              </li>
+            ))}
+          </ol>
+          {trace?.clamped && <p className="mt-2">The model's result was outside its {fmt.pressureNumber(MODEL_PSI_RANGE.min)}–{fmt.pressure(MODEL_PSI_RANGE.max)} range and was clamped.</p>}
+        </details>
+      )}
+      {geometry && (
+        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+          Air volume {geometry.volumeL.toFixed(2)} L · Contact patch {geometry.contactAreaCm2.toFixed(1)} cm² ({Math.round(geometry.contactLengthMm)} mm long)
+        </p>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,45 @@
+import { FORECAST_HORIZON_DAYS } from '../lib/weather';
+
+type Props = {
+  rideStart: Date | null;  // null = now
+  now: Date;
+  onChange: (d: Date | null) => void;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Date → value for <input type="datetime-local"> (local time, minute precision). */
+function toLocalInputValue(d: Date) {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+export default function RideTimePicker({ rideStart, now, onChange }: Props) {
+  const horizon = new Date(now.getTime() + FORECAST_HORIZON_DAYS * 24 * 3600 * 1000);
+  const outOfRange = rideStart != null && (rideStart < new Date(now.getTime() - 3600 * 1000) || rideStart > horizon);
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60 p-4">
+      <h3 className="font-semibold">Ride Start</h3>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <input
+          type="datetime-local"
+          value={toLocalInputValue(rideStart ?? now)}
+          min={toLocalInputValue(now)}
+          max={toLocalInputValue(horizon)}
+          onChange={(e) => {
+            const d = new Date(e.target.value);
+            onChange(Number.isNaN(d.getTime()) ? null : d);
+          }}
+          aria-label="Ride start time"
+          className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-700 dark:bg-slate-950"
+        />
+        <button type="button" disabled={!rideStart} onClick={() => onChange(null)} className="rounded-full border border-slate-300 px-3 py-2 text-sm disabled:opacity-50 dark:border-slate-700">Now</button>
+      </div>
+      <p className={`text-xs mt-2 ${outOfRange ? 'text-amber-700 dark:text-amber-300' : 'text-slate-500'}`}>
+        {outOfRange
+          ? `Forecasts only reach ${FORECAST_HORIZON_DAYS} days ahead — the nearest available hour is used.`
+          : `Temperature and wind use the forecast for this time (up to ${FORECAST_HORIZON_DAYS} days ahead).`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+// src/components/RideTimeline.tsx
+import { useMemo } from "react";
+import { useForecast } from "../hooks/useForecast";
+import { toCompass } from "../hooks/useWind";
+import { convertWindSpeed } from "../lib/weather";
+import type { LatLng } from "../lib/weather";
+import { unitFormat } from "../lib/units";
+import type { UnitPrefs } from "../lib/units";
+import { wheelClampWarnings } from "../lib/wheelLimits";
+import type { WheelLimiter } from "../lib/wheelLimits";
+import { ambientPressureAtElevation_kPa, buildRideTimeline, KPA_TO_PSI } from "../utils/pressureComp";
+import LimitWarnings from "./LimitWarnings";
+
+type Props = {
+  coords?: LatLng;          // optional; falls back to geolocation
+  start: Date;
+  durationH: number;
+  setDurationH: (h: number) => void;
+  frontPsi: number;         // target (baseline) pressures, at refTempC
+  rearPsi: number;
+  refTempC: number;
+  indoorTempC: number | null; // pumped indoors at this temperature; null = outside at the start
+  limitPsi: WheelLimiter;
+  units: UnitPrefs;
+};
+
+const fmtHour = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { weekday: "short", hour: "numeric", minute: "2-digit" });
+
+export default function RideTimeline({ coords, start, durationH, setDurationH, frontPsi, rearPsi, refTempC, indoorTempC, limitPsi, units }: Props) {
+  const { data, loading, error } = useForecast(coords);
+
+  const timeline = useMemo(() => {
+    if (!data || !(durationH > 0)) return null;
+    return buildRideTimeline({
+      hourly: data.hourly,
+      start,
+      durationH,
+      frontTargetPsi: frontPsi,
+      rearTargetPsi: rearPsi,
+      ambientPressurePsi: ambientPressureAtElevation_kPa(data.elevationM) * KPA_TO_PSI,
+      refTempC,
+      inflationTempC: indoorTempC,
+      limitPsi,
+    });
+  }, [data, start, durationH, frontPsi, rearPsi, refTempC, indoorTempC, limitPsi]);
+  const midpoint = timeline?.hours.find(h => h.isMidpoint);
+
+  const fmt = unitFormat(units);
+  const wind = (kmh: number) => convertWindSpeed(kmh, units.wind).toFixed(0);
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60 p-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="font-semibold">Ride Timeline</h3>
+        <label className="text-sm text-slate-600 dark:text-slate-400">
+          Duration{" "}
+          <input
+            type="number"
+            min={1}
+            max={24}
+            step={0.5}
+            value={durationH}
+            onChange={(e) => setDurationH(Number(e.target.value))}
+            className="w-20 rounded-xl border border-slate-300 bg-white px-2 py-1 text-sm dark:border-slate-700 dark:bg-slate-950"
+          />{" "}h
+        </label>
+      </div>
+
+      {loading && <p className="text-sm mt-2">Loading hourly forecast…</p>}
+      {error && <p className="text-sm mt-2 text-rose-600">{error}</p>}
+
+      {timeline && (
+        <>
+          <div className="mt-3 rounded-lg bg-sky-50 dark:bg-sky-950/40 p-3 text-sm">
+            Inflate {indoorTempC != null ? "indoors" : "at start"} ({fmt.temperature(timeline.inflationTempC, 1)}) to{" "}
+            <strong>{fmt.gauge(timeline.inflateFrontPsi, timeline.frontLimits)} front / {fmt.gauge(timeline.inflateRearPsi, timeline.rearLimits)} rear</strong>
+            {" "}— on target{midpoint && <> ({fmt.pressureNumber(midpoint.frontPsi)}/{fmt.pressure(midpoint.rearPsi)})</>} at the midpoint, {fmtHour(timeline.midpointTime)} ({fmt.temperature(timeline.midpointTempC, 1)}).
+          </div>
+          <LimitWarnings warnings={wheelClampWarnings(timeline.frontLimits, timeline.rearLimits)} />
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-[11px] uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="py-1 pr-3 text-left font-medium">Hour</th>
+                  <th className="py-1 pr-3 text-right font-medium">Temp</th>
+                  <th className="py-1 pr-3 text-right font-medium">Wind ({fmt.windUnit})</th>
+                  <th className="py-1 pr-3 text-right font-medium">Gust</th>
+                  <th className="py-1 pr-3 text-right font-medium">Front ({fmt.pressureUnit})</th>
+                  <th className="py-1 text-right font-medium">Rear ({fmt.pressureUnit})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {timeline.hours.map(h => (
+                  <tr key={h.time} className={h.isMidpoint ? "bg-sky-100/70 font-semibold dark:bg-sky-900/40" : "border-t border-slate-200 dark:border-slate-800"}>
+                    <td className="py-1 pr-3">{fmtHour(h.time)}{h.isMidpoint && " · mid"}</td>
+                    <td className="py-1 pr-3 text-right">{fmt.temperature(h.temperatureC, 1)}</td>
+                    <td className="py-1 pr-3 text-right">{wind(h.windSpeedKmh)} {toCompass(h.windDirectionDeg)}</td>
+                    <td className="py-1 pr-3 text-right">{h.windGustKmh == null ? "–" : wind(h.windGustKmh)}</td>
+                    <td className="py-1 pr-3 text-right">{fmt.pressureNumber(h.frontPsi)}</td>
+                    <td className="py-1 text-right">{fmt.pressureNumber(h.rearPsi)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500 mt-2">Pressures are gauge readings in the tire for each hour, from air temperature alone.</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { convertWindSpeed } from '../lib/weather';
+import type { WindUnit } from '../lib/weather';
+import { assessRimSafety, DEFAULT_RIM_THRESHOLDS, isDeepRim, isValidThreshold, RIM_DEPTH_RANGE } from '../lib/rimSafety';
+import type { RimWindThreshold } from '../lib/rimSafety';
+import type { WindData } from '../hooks/useWind';
+
+type Props = {
+  depthMm: number;
+  setDepthMm: (v: number) => void;
+  thresholds: RimWindThreshold[];
+  setThresholds: (rows: RimWindThreshold[]) => void;
+  wind: WindData | null;
+  headingDeg: number | null;
+  unit: WindUnit;
+};
+
+const LEVEL_STYLES = {
+  ok: 'border-emerald-400 bg-emerald-50 text-emerald-900 dark:bg-emerald-950/40 dark:text-emerald-200',
+  caution: 'border-amber-400 bg-amber-50 text-amber-900 dark:bg-amber-950/40 dark:text-amber-200',
+  warning: 'border-rose-500 bg-rose-50 text-rose-900 dark:bg-rose-950/40 dark:text-rose-200',
+};
+
+export default function RimSafetyCard({ depthMm, setDepthMm, thresholds, setThresholds, wind, headingDeg, unit }: Props) {
+  const deep = isDeepRim(depthMm, thresholds);
+  const safety = deep && wind && assessRimSafety({
+    depthMm, windFromDeg: wind.directionDeg, speed: wind.speed, gust: wind.gust, headingDeg, unit, thresholds,
+  });
+  const fmt = (v: number) => `${v.toFixed(1)} ${unit}`;
+
+  let advice = '';
+  if (safety) {
+    const shallower = safety.suggestedDepthMm == null
+      ? 'Even the shallowest rim in your table is above its caution level — consider a box-section front wheel or postponing.'
+      : safety.suggestedDepthMm < depthMm
+        ? `A front rim of ${safety.suggestedDepthMm} mm or shallower stays under its caution level.`
+        : '';
+    advice = safety.level === 'warning'
+      ? `Gusty crosswinds exceed the limit for a ${depthMm} mm front rim. ${shallower}`
+      : safety.level === 'caution'
+        ? `Expect to be pushed around on a ${depthMm} mm front rim; keep a firm grip in exposed sections. ${shallower}`
+        : `Crosswinds are within the comfortable range for a ${depthMm} mm front rim.`;
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60 p-4">
+      <h3 className="font-semibold">Deep-Section Wheel Check</h3>
+
+      <label className="mt-3 flex items-center gap-2 text-sm">
+        Front rim depth
+        <input
+          type="number"
+          min={RIM_DEPTH_RANGE.min}
+          max={RIM_DEPTH_RANGE.max}
+          step={1}
+          value={depthMm}
+          onChange={(e) => setDepthMm(Math.min(RIM_DEPTH_RANGE.max, Math.max(RIM_DEPTH_RANGE.min, Number(e.target.value) || 0)))}
+          className="w-20 rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-sm dark:border-slate-700 dark:bg-slate-950"
+        />
+        mm
+      </label>
+
+      {!deep && (
+        <p className="text-sm mt-2 text-slate-500">
+          Enter a front rim depth of {Math.min(...thresholds.map(r => r.depthMm))} mm or more to check it against the crosswind; shallower rims aren't assessed.
+        </p>
+      )}
+      {deep && !safety && <p className="text-sm mt-2 text-slate-500">Waiting for wind data.</p>}
+      {safety && (
+        <>
+          <div className={`mt-3 rounded-lg border p-3 text-sm ${LEVEL_STYLES[safety.level]}`}>
+            <strong>{safety.level === 'ok' ? 'OK' : safety.level === 'caution' ? 'Caution' : 'Warning'}:</strong> {advice}
+          </div>
+          <p className="text-xs mt-2 text-slate-500">
+            {safety.worstCase ? 'No course set — assuming the wind hits square-on. ' : `On your ${Math.round(headingDeg ?? 0)}° course: `}
+            crosswind {fmt(safety.crosswind)}
+            {safety.gustCrosswind != null && <>, gusts {fmt(safety.gustCrosswind)}</>}
+            {' '}vs caution {fmt(safety.caution)} / limit {fmt(safety.limit)} at {depthMm} mm.
+          </p>
+        </>
+      )}
+
+      <details className="mt-3">
+        <summary className="cursor-pointer text-sm text-slate-700 dark:text-slate-300">
+          Thresholds{thresholds !== DEFAULT_RIM_THRESHOLDS && ' (customised)'}
+        </summary>
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Crosswind ({unit}) per front rim depth. Depths in between are interpolated.
+        </p>
+        <table className="mt-2 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-500">
+              <th className="py-1 pr-2 font-normal">Depth (mm)</th>
+              <th className="py-1 pr-2 font-normal">Caution</th>
+              <th className="py-1 pr-2 font-normal">Limit</th>
+            </tr>
+          </thead>
+          <tbody>
+            {thresholds.map((row, i) => (
+              <ThresholdRow
+                key={i}
+                row={row}
+                unit={unit}
+                onChange={(next) => setThresholds(thresholds.map((r, j) => j === i ? next : r))}
+              />
+            ))}
+          </tbody>
+        </table>
+        <button type="button" disabled={thresholds === DEFAULT_RIM_THRESHOLDS} onClick={() => setThresholds(DEFAULT_RIM_THRESHOLDS)} className="mt-2 rounded-full border border-slate-300 px-3 py-1 text-sm disabled:opacity-50 dark:border-slate-700">
+          Reset to defaults
+        </button>
+      </details>
+    </div>
+  );
+}
+
+function ThresholdRow({ row, unit, onChange }: { row: RimWindThreshold; unit: WindUnit; onChange: (r: RimWindThreshold) => void }) {
+  // Edit in the display unit, store in km/h; only valid rows are applied
+  const perKmh = convertWindSpeed(1, unit);
+  const shown = [row.depthMm, row.cautionKmh * perKmh, row.limitKmh * perKmh];
+  const [draft, setDraft] = useState<string[] | null>(null);
+  const values = draft ?? shown.map(v => String(Math.round(v * 10) / 10));
+  const parsed = values.map(v => v.trim() === '' ? NaN : Number(v));
+  const next = { depthMm: parsed[0], cautionKmh: parsed[1] / perKmh, limitKmh: parsed[2] / perKmh };
+  const invalid = draft !== null && !isValidThreshold(next);
+
+  return (
+    <tr>
+      {values.map((v, i) => (
+        <td key={i} className="py-1 pr-2">
+          <input
+            type="number"
+            step="any"
+            value={v}
+            onChange={(e) => {
+              const d = values.map((x, j) => j === i ? e.target.value : x);
+              setDraft(d);
+              const n = d.map(x => x.trim() === '' ? NaN : Number(x));
+              const r = { depthMm: n[0], cautionKmh: n[1] / perKmh, limitKmh: n[2] / perKmh };
+              if (isValidThreshold(r)) onChange(r);
+            }}
+            onBlur={() => { if (!invalid) setDraft(null); }}
+            aria-invalid={invalid}
+            className={`w-full rounded-lg border bg-white px-2 py-1 text-sm dark:bg-slate-950 ${invalid ? 'border-rose-500' : 'border-slate-300 dark:border-slate-700'}`}
+          />
+        </td>
+      ))}
+    </tr>
+  );
+}
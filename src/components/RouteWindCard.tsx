@@ -0,0 +1,137 @@
+// src/components/RouteWindCard.tsx
+import { useMemo, useRef, useState } from "react";
+import { useForecast } from "../hooks/useForecast";
+import { parseGpx, parseWaypoints, routeSegments } from "../lib/gpx";
+import type { Route } from "../lib/gpx";
+import { segmentWinds, summarizeRouteWind } from "../lib/routeWind";
+import type { WindKind } from "../lib/routeWind";
+import { unitFormat } from "../lib/units";
+import type { UnitPrefs } from "../lib/units";
+
+type Props = {
+  route: Route | null;
+  onRouteChange: (route: Route | null) => void;
+  start: Date;
+  avgSpeedKmh: number;
+  setAvgSpeedKmh: (n: number) => void;
+  units: UnitPrefs;
+};
+
+const KIND_STYLE: Record<WindKind, { label: string; bar: string }> = {
+  tailwind: { label: "Tailwind", bar: "bg-emerald-500" },
+  crosswind: { label: "Crosswind", bar: "bg-amber-500" },
+  headwind: { label: "Headwind", bar: "bg-rose-500" },
+};
+
+export default function RouteWindCard({ route, onRouteChange, start, avgSpeedKmh, setAvgSpeedKmh, units }: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [waypointsOpen, setWaypointsOpen] = useState(false);
+  const [waypointText, setWaypointText] = useState("");
+  // Forecast at the route start; routes are assumed to stay within one forecast cell's weather
+  const { data, loading, error } = useForecast(route ? route.points[0] : null);
+
+  const summary = useMemo(() => {
+    if (!route || !data || !(avgSpeedKmh > 0)) return null;
+    return summarizeRouteWind(segmentWinds({ segments: routeSegments(route.points), hourly: data.hourly, start, avgSpeedKmh }));
+  }, [route, data, start, avgSpeedKmh]);
+
+  async function loadFile(file: File | undefined) {
+    if (!file) return;
+    try {
+      setFileError(null);
+      onRouteChange(parseGpx(await file.text()));
+    } catch (e) {
+      setFileError(e instanceof Error ? e.message : "Could not read GPX file");
+    } finally {
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  function loadWaypoints() {
+    try {
+      setFileError(null);
+      onRouteChange(parseWaypoints(waypointText));
+      setWaypointsOpen(false);
+    } catch (e) {
+      setFileError(e instanceof Error ? e.message : "Could not read waypoints");
+    }
+  }
+
+  const fmt = unitFormat(units);
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60 p-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="font-semibold">Route Wind</h3>
+        <div className="flex gap-2">
+          <button type="button" onClick={() => fileRef.current?.click()} className="rounded-full border border-slate-300 px-3 py-1 text-sm dark:border-slate-700">Load GPX</button>
+          <button type="button" onClick={() => setWaypointsOpen(o => !o)} aria-expanded={waypointsOpen} className="rounded-full border border-slate-300 px-3 py-1 text-sm dark:border-slate-700">Waypoints</button>
+          {route && <button type="button" onClick={() => onRouteChange(null)} className="rounded-full border border-slate-300 px-3 py-1 text-sm dark:border-slate-700">Clear</button>}
+          <input ref={fileRef} type="file" accept=".gpx,application/gpx+xml" className="hidden" onChange={(e) => loadFile(e.target.files?.[0])} />
+        </div>
+      </div>
+      {waypointsOpen && (
+        <div className="mt-2">
+          <textarea
+            value={waypointText}
+            onChange={(e) => setWaypointText(e.target.value)}
+            rows={4}
+            placeholder={"One \"lat, lon\" per line, in riding order\n39.7684, -86.1581\n39.8000, -86.1000\n…"}
+            aria-label="Waypoints"
+            className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm font-mono dark:border-slate-700 dark:bg-slate-950"
+          />
+          <button type="button" onClick={loadWaypoints} className="mt-1 rounded-full border border-sky-400 px-3 py-1 text-sm">Use waypoints as loop</button>
+        </div>
+      )}
+      {fileError && <p className="text-sm mt-2 text-rose-600">{fileError}</p>}
+      {!route && !fileError && <p className="text-sm mt-2 text-slate-500">Load a GPX file (read locally) to see wind along the route.</p>}
+
+      {route && (
+        <>
+          <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+            <span><strong>{route.name}</strong>{summary && ` · ${fmt.distance(summary.totalKm)}`}</span>
+            <label className="text-slate-600 dark:text-slate-400">
+              Avg speed{" "}
+              <input type="number" min={3} max={60} value={Math.round(fmt.fromKmh(avgSpeedKmh) * 10) / 10} onChange={(e) => setAvgSpeedKmh(fmt.toKmh(Number(e.target.value)))} className="w-16 rounded-xl border border-slate-300 bg-white px-2 py-1 text-sm dark:border-slate-700 dark:bg-slate-950" />{" "}{fmt.speedUnit}
+            </label>
+          </div>
+          {loading && <p className="text-sm mt-2">Loading forecast for the route…</p>}
+          {error && <p className="text-sm mt-2 text-rose-600">{error}</p>}
+        </>
+      )}
+
+      {summary && summary.totalKm > 0 && (
+        <>
+          <div className="mt-3 flex h-3 overflow-hidden rounded-full">
+            {(Object.keys(KIND_STYLE) as WindKind[]).map(k => (
+              <div key={k} className={KIND_STYLE[k].bar} style={{ width: `${(summary.distanceKm[k] / summary.totalKm) * 100}%` }} />
+            ))}
+          </div>
+          <div className="mt-2 grid grid-cols-3 gap-3 text-sm">
+            {(Object.keys(KIND_STYLE) as WindKind[]).map(k => (
+              <div key={k} className="rounded-lg bg-slate-100 dark:bg-slate-800 p-3">
+                <div className="text-[11px] uppercase tracking-wide text-slate-500">{KIND_STYLE[k].label}</div>
+                <div className="font-semibold">{fmt.distance(summary.distanceKm[k])}</div>
+                <div className="text-slate-500">{Math.round((summary.distanceKm[k] / summary.totalKm) * 100)}%</div>
+              </div>
+            ))}
+          </div>
+
+          <h4 className="mt-3 text-sm font-semibold">Worst crosswind stretches</h4>
+          {summary.worstCrosswinds.length ? (
+            <ul className="mt-1 space-y-1 text-sm">
+              {summary.worstCrosswinds.map(s => (
+                <li key={s.startKm}>
+                  {fmt.distance(s.startKm)} to {fmt.distance(s.endKm)}: up to <strong>{fmt.wind(s.peakCrosswindKmh)}</strong> from the {s.side}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-1 text-sm text-slate-500">No sustained crosswind stretches.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
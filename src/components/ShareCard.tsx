@@ -0,0 +1,78 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toDataURL } from 'qrcode';
+import { decodeSetupCode, encodeSetupCode, SETUP_CODE_PARAM, setupCodeLink } from '../lib/setupCode';
+import type { UrlState } from '../lib/urlState';
+
+type Props = {
+  state: UrlState;
+};
+
+export default function ShareCard({ state }: Props) {
+  const code = useMemo(() => encodeSetupCode(state), [state]);
+  const link = setupCodeLink(code);
+  const [qr, setQr] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [entered, setEntered] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Generated locally, so it works at a start line without signal
+  useEffect(() => {
+    let cancelled = false;
+    setCopied(false);
+    toDataURL(link, { errorCorrectionLevel: 'M', margin: 2, width: 220 })
+      .then(url => { if (!cancelled) setQr(url); })
+      .catch(() => { if (!cancelled) setQr(null); });
+    return () => { cancelled = true; };
+  }, [link]);
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  }
+
+  // Accepts a bare code or a whole link; checked before leaving the page
+  function load() {
+    const raw = entered.trim();
+    const pasted = raw.includes('?') ? new URLSearchParams(raw.slice(raw.indexOf('?'))).get(SETUP_CODE_PARAM) ?? '' : raw;
+    try {
+      decodeSetupCode(pasted);
+      window.location.assign(setupCodeLink(pasted));
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : 'Setup code could not be read');
+    }
+  }
+
+  return (
+    <details className="rounded-2xl border border-slate-200 bg-white/70 p-5 shadow-xl dark:border-slate-800 dark:bg-slate-900/50">
+      <summary className="cursor-pointer text-sm font-semibold text-slate-700 dark:text-slate-300">
+        Share setup ({code.length}-character code)
+      </summary>
+      <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+        The link carries the whole calculator state. A teammate scans the QR code to open the same setup.
+      </p>
+
+      <div className="mt-3 flex flex-col gap-4 md:flex-row md:items-start">
+        {qr && <img src={qr} alt="QR code for this setup" width={220} height={220} className="rounded-lg bg-white" />}
+        <div className="flex-1 space-y-2">
+          <input readOnly value={link} onFocus={(e) => e.target.select()} aria-label="Setup link" className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 font-mono text-xs dark:border-slate-700 dark:bg-slate-950" />
+          <button type="button" onClick={copy} className="rounded-full border border-sky-400 px-3 py-1 text-sm">
+            {copied ? 'Copied' : 'Copy link'}
+          </button>
+
+          <div className="pt-2">
+            <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Open a setup code or link</label>
+            <div className="flex gap-2">
+              <input value={entered} onChange={(e) => { setEntered(e.target.value); setLoadError(null); }} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 font-mono text-xs dark:border-slate-700 dark:bg-slate-950" />
+              <button type="button" disabled={!entered.trim()} onClick={load} className="rounded-full border border-slate-300 px-3 py-1 text-sm disabled:opacity-50 dark:border-slate-700">Open</button>
+            </div>
+            {loadError && <p className="mt-1 text-xs text-rose-600">{loadError}</p>}
+          </div>
+        </div>
+      </div>
+    </details>
+  );
+}
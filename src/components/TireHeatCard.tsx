@@ -0,0 +1,90 @@
+import { routeElevationProfile } from '../lib/gpx';
+import type { Route } from '../lib/gpx';
+import { BRAKE_TYPES, BRAKING_LEVELS, brakingHeatC, SUN_EXPOSURE_LABELS, SUN_EXPOSURES } from '../lib/tireHeating';
+import type { BrakeType, BrakingLevel, SunExposure } from '../lib/tireHeating';
+import { fromM, toM, unitFormat } from '../lib/units';
+import type { UnitPrefs } from '../lib/units';
+import { pressureRisePsi } from '../utils/pressureComp';
+
+type Props = {
+  sun: SunExposure;
+  setSun: (v: SunExposure) => void;
+  brakes: BrakeType;
+  setBrakes: (v: BrakeType) => void;
+  braking: BrakingLevel;
+  setBraking: (v: BrakingLevel) => void;
+  descentDropM: number;
+  setDescentDropM: (v: number) => void;
+  route: Route | null;
+  frontPsi: number;            // riding pressures before the descent
+  rearPsi: number;
+  tireTempC: number | null;    // tire air while riding, from the weather adjustment
+  ambientPressurePsi: number | null;
+  units: UnitPrefs;
+};
+
+const select = 'w-full rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-sm dark:border-slate-700 dark:bg-slate-950';
+const label = 'mb-1 block text-xs text-slate-500 dark:text-slate-400';
+const capitalize = (s: string) => s[0].toUpperCase() + s.slice(1);
+
+export default function TireHeatCard({
+  sun, setSun, brakes, setBrakes, braking, setBraking, descentDropM, setDescentDropM,
+  route, frontPsi, rearPsi, tireTempC, ambientPressurePsi, units,
+}: Props) {
+  const fmt = unitFormat(units);
+  const profile = route ? routeElevationProfile(route.points) : null;
+  const heatC = brakingHeatC(descentDropM, brakes, braking);
+  const startC = tireTempC ?? 20;
+  const atmPsi = ambientPressurePsi ?? 14.7;
+  const frontRise = pressureRisePsi(frontPsi, startC, heatC, atmPsi);
+  const rearRise = pressureRisePsi(rearPsi, startC, heatC, atmPsi);
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60 p-4">
+      <h3 className="font-semibold">Tire Heating</h3>
+      <p className="text-sm mt-1 text-slate-600 dark:text-slate-400">
+        Sun on the road warms the tire above the air temperature; the weather-adjusted pressure accounts for it.
+      </p>
+
+      <div className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-4">
+        <label>
+          <span className={label}>Sun</span>
+          <select value={sun} onChange={(e) => setSun(e.target.value as SunExposure)} className={select}>
+            {SUN_EXPOSURES.map(s => <option key={s} value={s}>{SUN_EXPOSURE_LABELS[s]}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={label}>Brakes</span>
+          <select value={brakes} onChange={(e) => setBrakes(e.target.value as BrakeType)} className={select}>
+            {BRAKE_TYPES.map(b => <option key={b} value={b}>{capitalize(b)}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={label}>Braking</span>
+          <select value={braking} onChange={(e) => setBraking(e.target.value as BrakingLevel)} disabled={brakes !== 'rim'} className={select}>
+            {BRAKING_LEVELS.map(b => <option key={b} value={b}>{capitalize(b)}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={label}>Descent drop ({fmt.elevationUnit})</span>
+          <div className="flex gap-2">
+            <input type="number" min={0} step={50} value={Math.round(fromM(descentDropM, units.elevation))} onChange={(e) => setDescentDropM(Math.max(0, toM(Number(e.target.value) || 0, units.elevation)))} className={select} />
+            <button type="button" disabled={!profile} onClick={() => profile && setDescentDropM(Math.round(profile.maxM - profile.minM))} title={profile ? 'Use the route’s elevation range' : 'Load a route with elevation data'} className="rounded-full border border-slate-300 px-2 text-sm disabled:opacity-50 dark:border-slate-700">⛰</button>
+          </div>
+        </label>
+      </div>
+
+      {brakes === 'rim' && descentDropM > 0 ? (
+        <p className="text-sm mt-3">
+          Rim braking over {fmt.elevation(descentDropM)} could warm the tire air by about <strong>{fmt.temperatureDelta(heatC)}</strong>:
+          expect <strong>{fmt.pressureDelta(frontRise)}</strong> front and <strong>{fmt.pressureDelta(rearRise)}</strong> rear near the bottom.
+          {heatC > 30 && ' Feather the brakes and stop to let the rims cool on long, steep descents.'}
+        </p>
+      ) : (
+        <p className="text-sm mt-3 text-slate-500">
+          {brakes === 'disc' ? 'Disc brakes keep descent heat in the rotors, away from the tires.' : 'Enter a descent to estimate rim-brake heating.'}
+        </p>
+      )}
+    </div>
+  );
+}
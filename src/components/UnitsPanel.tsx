@@ -0,0 +1,75 @@
+import { WIND_UNITS } from '../lib/weather';
+import { ELEVATION_UNITS, PRESSURE_STEPS, PRESSURE_UNITS, TEMPERATURE_UNITS, UNIT_SYSTEMS, WEIGHT_UNITS, WIND_LABEL } from '../lib/units';
+import type { PressureUnit, UnitPrefs } from '../lib/units';
+
+type Props = {
+  units: UnitPrefs;
+  setUnits: (u: UnitPrefs) => void;
+};
+
+const select = 'w-full rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-sm dark:border-slate-700 dark:bg-slate-950';
+const label = 'mb-1 block text-xs text-slate-500 dark:text-slate-400';
+
+export default function UnitsPanel({ units, setUnits }: Props) {
+  function setPressure(pressure: PressureUnit) {
+    setUnits({ ...units, pressure, pressureStep: PRESSURE_STEPS[pressure][0] });
+  }
+
+  return (
+    <details className="rounded-2xl border border-slate-200 bg-white/70 p-5 shadow-xl dark:border-slate-800 dark:bg-slate-900/50">
+      <summary className="cursor-pointer text-sm font-semibold text-slate-700 dark:text-slate-300">
+        Units & rounding ({units.pressure}, °{units.temperature}, {units.weight}, {WIND_LABEL[units.wind]}, {units.elevation})
+      </summary>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {UNIT_SYSTEMS.map(s => (
+          <button key={s.name} type="button" onClick={() => setUnits(s.units)} className="rounded-full border border-slate-300 px-3 py-1 text-sm dark:border-slate-700">
+            {s.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-3">
+        <label>
+          <span className={label}>Pressure</span>
+          <select value={units.pressure} onChange={(e) => setPressure(e.target.value as PressureUnit)} className={select}>
+            {PRESSURE_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={label}>Pump gauge steps</span>
+          <select value={units.pressureStep} onChange={(e) => setUnits({ ...units, pressureStep: Number(e.target.value) })} className={select}>
+            {PRESSURE_STEPS[units.pressure].map(s => <option key={s} value={s}>{s} {units.pressure}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={label}>Temperature</span>
+          <select value={units.temperature} onChange={(e) => setUnits({ ...units, temperature: e.target.value as UnitPrefs['temperature'] })} className={select}>
+            {TEMPERATURE_UNITS.map(u => <option key={u} value={u}>°{u}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={label}>Weight</span>
+          <select value={units.weight} onChange={(e) => setUnits({ ...units, weight: e.target.value as UnitPrefs['weight'] })} className={select}>
+            {WEIGHT_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={label}>Wind</span>
+          <select value={units.wind} onChange={(e) => setUnits({ ...units, wind: e.target.value as UnitPrefs['wind'] })} className={select}>
+            {WIND_UNITS.map(u => <option key={u} value={u}>{WIND_LABEL[u]}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={label}>Elevation & distance</span>
+          <select value={units.elevation} onChange={(e) => setUnits({ ...units, elevation: e.target.value as UnitPrefs['elevation'] })} className={select}>
+            {ELEVATION_UNITS.map(u => <option key={u} value={u}>{u === 'm' ? 'm / km' : 'ft / miles'}</option>)}
+          </select>
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+        Pressures to set are rounded to what your pump gauge can show; entered weights are converted when the weight unit changes.
+      </p>
+    </details>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { FRONT_PCT_RANGE, WEIGHT_SPLITS } from '../constants';
+import { splitFromScaleReadings } from '../lib/calc';
+
+type Props = {
+  frontPct: number;
+  setFrontPct: (pct: number) => void;
+};
+
+const fmtPct = (n: number) => String(Math.round(n * 10) / 10);
+
+export default function WeightSplitInput({ frontPct, setFrontPct }: Props) {
+  const [measuring, setMeasuring] = useState(false);
+  const [frontReading, setFrontReading] = useState<number>(0);
+  const [rearReading, setRearReading] = useState<number>(0);
+  const measuredPct = splitFromScaleReadings(frontReading, rearReading);
+  const measuredInRange = measuredPct != null && measuredPct >= FRONT_PCT_RANGE.min && measuredPct <= FRONT_PCT_RANGE.max;
+  const presetLabel = WEIGHT_SPLITS.find(s => Math.abs(s.front * 100 - frontPct) < 0.05)?.label ?? '';
+
+  return (
+    <div>
+      <div className="mb-1 flex items-baseline justify-between gap-2">
+        <label className="block text-sm text-slate-700 dark:text-slate-300">Rider + Bike Distribution (Front / Rear)</label>
+        <span className="text-sm font-semibold">{fmtPct(frontPct)} / {fmtPct(100 - frontPct)}</span>
+      </div>
+      <input
+        type="range"
+        min={FRONT_PCT_RANGE.min}
+        max={FRONT_PCT_RANGE.max}
+        step={0.5}
+        value={frontPct}
+        onChange={(e) => setFrontPct(Number(e.target.value))}
+        className="w-full accent-sky-500"
+        aria-label="Front weight percentage"
+      />
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <select value={presetLabel} onChange={(e) => {
+          const s = WEIGHT_SPLITS.find(s => s.label === e.target.value);
+          if (s) setFrontPct(s.front * 100);
+        }} className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-700 dark:bg-slate-950">
+          <option value="">Custom</option>
+          {WEIGHT_SPLITS.map((s) => <option key={s.label} value={s.label}>{s.label}</option>)}
+        </select>
+        <button type="button" onClick={() => setMeasuring(m => !m)} aria-expanded={measuring} className="rounded-full border border-slate-300 px-3 py-2 text-sm dark:border-slate-700">
+          {measuring ? 'Hide scale helper' : 'Measure it'}
+        </button>
+      </div>
+
+      {measuring && (
+        <div className="mt-3 rounded-xl bg-slate-100 p-3 dark:bg-slate-800">
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Put a bathroom scale under each wheel, sit in your riding position without bags, and enter both readings (any unit).
+          </p>
+          <div className="mt-2 grid grid-cols-2 gap-3">
+            <div>
+              <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Front scale</label>
+              <input type="number" min={0} value={frontReading || ''} onChange={(e) => setFrontReading(Number(e.target.value))} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950" />
+            </div>
+            <div>
+              <label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Rear scale</label>
+              <input type="number" min={0} value={rearReading || ''} onChange={(e) => setRearReading(Number(e.target.value))} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 dark:border-slate-700 dark:bg-slate-950" />
+            </div>
+          </div>
+          {measuredPct != null && (
+            <div className="mt-2 flex items-center justify-between gap-2 text-sm">
+              <span>Measured: <strong>{fmtPct(measuredPct)} / {fmtPct(100 - measuredPct)}</strong></span>
+              <button type="button" disabled={!measuredInRange} onClick={() => setFrontPct(Math.round(measuredPct * 10) / 10)} className="rounded-full border border-sky-400 px-3 py-1 text-sm disabled:opacity-50">Use</button>
+            </div>
+          )}
+          {measuredPct != null && !measuredInRange && (
+            <p className="mt-1 text-xs text-amber-700 dark:text-amber-300">Outside {FRONT_PCT_RANGE.min}–{FRONT_PCT_RANGE.max}% front — check the readings.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,15 @@
 // src/components/WindCard.tsx
-import { toCompass, useWind, windComponents } from "../hooks/useWind";
-import type { LatLng, WindUnit } from "../hooks/useWind";
+import { toCompass, windComponents } from "../hooks/useWind";
+import type { WindState, WindUnit } from "../hooks/useWind";
 
 type Props = {
-  coords?: LatLng;          // optional; falls back to geolocation
-  when?: Date;              // optional; defaults to frozen "now" in the hook
-  unit?: WindUnit;          // "mph" | "kmh" | "ms" | "kn"
+  wind: WindState;          // from useWind, shared with the heading recommendation
+  unit?: WindUnit;          // "mph" | "kmh" | "ms" | "kn"; the unit `wind` was fetched in
   routeHeadingDeg?: number; // optional: your course/bearing (0..359)
 };
 
-export default function WindCard({ coords, when, unit = "mph", routeHeadingDeg }: Props) {
-  const { data, loading, error } = useWind({ coords, when, unit });
+export default function WindCard({ wind, unit = "mph", routeHeadingDeg }: Props) {
+  const { data, loading, error } = wind;
 
   return (
     <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60 p-4">
@@ -35,6 +35,25 @@ export const SPEEDS = [
   'Fast Single Track',
 ] as const;
 
+/** ISO (ETRTO) bead-seat diameter in mm for each wheel size. */
+export const WHEEL_BSD_MM = {
+  '700C/29"': 622,
+  '650C': 571,
+  '650B/27.5"': 584,
+  '26"': 559,
+} as const satisfies Record<typeof WHEEL_DIAMETERS[number], number>;
+
+// Rim bead style, which sets the pressure ceiling and ETRTO width rules
+export const RIM_TYPES = ['hooked', 'hookless', 'tubular'] as const;
+export type RimType = typeof RIM_TYPES[number];
+export const RIM_TYPE_LABELS = {
+  hooked: 'Hooked (clincher)',
+  hookless: 'Hookless (TSS)',
+  tubular: 'Tubular',
+} as const satisfies Record<RimType, string>;
+/** ETRTO maximum for hookless rims (5 bar). */
+export const HOOKLESS_MAX_PSI = 72.5;
+
 export type Surface = typeof SURFACES[number];
 export type WheelDiameter = typeof WHEEL_DIAMETERS[number];
 export type TireType = typeof TIRE_TYPES[number];
@@ -48,6 +67,26 @@ export const WEIGHT_SPLITS: WeightSplit[] = [
   { label: '46.5/53.5 (Mountain Bikes)',       front: 0.465, rear: 0.535 },
 ];
 
+/** Allowed range (percent of total weight) for a custom front split. */
+export const FRONT_PCT_RANGE = { min: 30, max: 70 } as const;
+export const DEFAULT_FRONT_PCT = 48;
+
+// Bags/cargo and where they sit on the bike
+export const CARGO_PLACEMENTS = ['front', 'frame', 'rear'] as const;
+export type CargoPlacement = typeof CARGO_PLACEMENTS[number];
+export const CARGO_PLACEMENT_LABELS = {
+  front: 'Front (handlebar/fork)',
+  frame: 'Frame (frame/top-tube bag)',
+  rear: 'Rear (seat pack/rack)',
+} as const satisfies Record<CargoPlacement, string>;
+/** Share of a cargo item's weight carried by the front wheel. */
+export const CARGO_FRONT_SHARE = {
+  front: 1,
+  frame: 0.5,
+  rear: 0,
+} as const satisfies Record<CargoPlacement, number>;
+export type CargoItem = { placement: CargoPlacement; weight: number };
+
 export type Preset = { name: 'Road'|'Gravel'|'MTB'; surface: Surface; splitLabel: string; defaultWidth: number };
 export const PRESETS: readonly Preset[] = [
   { name: 'Road',   surface: 'Worn Pavement / Some Cracks', splitLabel: '48/52 (Road Bikes)',          defaultWidth: 28 },
@@ -55,4 +94,5 @@ export const PRESETS: readonly Preset[] = [
   { name: 'MTB',    surface: 'Category 3 Gravel',           splitLabel: '46.5/53.5 (Mountain Bikes)',  defaultWidth: 55 },
 ] as const;
 
-export const PSI_PER_BAR = 14.5037738;
\ No newline at end of file
+export const PSI_PER_BAR = 14.5037738;
+export const LBS_PER_KG = 2.20462262;
\ No newline at end of file
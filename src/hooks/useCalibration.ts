@@ -0,0 +1,23 @@
+// src/hooks/useCalibration.ts
+import { useEffect, useState } from "react";
+import { loadCalibrationPoints, saveCalibrationPoints } from "../lib/calibration";
+import type { CalibrationPoint } from "../lib/calibration";
+
+/** Known-good pressure data points, persisted to localStorage. */
+export function useCalibration() {
+  const [points, setPoints] = useState<CalibrationPoint[]>(() => loadCalibrationPoints());
+
+  useEffect(() => {
+    saveCalibrationPoints(points);
+  }, [points]);
+
+  function add(point: Omit<CalibrationPoint, "id">) {
+    setPoints(list => [...list, { ...point, id: `c-${Date.now().toString(36)}` }]);
+  }
+
+  function remove(id: string) {
+    setPoints(list => list.filter(p => p.id !== id));
+  }
+
+  return { points, add, remove, clear: () => setPoints([]) };
+}
@@ -0,0 +1,55 @@
+// src/hooks/useForecast.ts
+import { useEffect, useState } from "react";
+import { defaultWeatherProvider } from "../lib/weather";
+import type { HourlyWeather, LatLng, WeatherProvider } from "../lib/weather";
+import { getGeolocation } from "../utils/pressureComp";
+
+export type Forecast = {
+  coords: LatLng;
+  hourly: HourlyWeather;
+  elevationM: number;
+};
+
+/**
+ * Full hourly forecast + elevation for a location.
+ * `undefined` coords fall back to geolocation; `null` means nothing to fetch yet.
+ */
+export function useForecast(coords?: LatLng | null, provider: WeatherProvider = defaultWeatherProvider) {
+  const skip = coords === null;
+  const lat = coords?.lat;
+  const lon = coords?.lon;
+  const [data, setData] = useState<Forecast | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    const controller = new AbortController();
+    if (skip) {
+      setData(null);
+      return;
+    }
+
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const where = lat !== undefined && lon !== undefined ? { lat, lon } : await getGeolocation();
+        const [hourly, elevationM] = await Promise.all([provider.getHourly(where, controller.signal), provider.getElevationM(where, controller.signal)]);
+        if (alive) setData({ coords: where, hourly, elevationM });
+      } catch (err) {
+        if (!alive) return;
+        setError(err instanceof Error || err instanceof GeolocationPositionError ? err.message : String(err));
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+      controller.abort();
+    };
+  }, [skip, lat, lon, provider]);
+
+  return { data, loading, error };
+}
@@ -0,0 +1,21 @@
+// src/hooks/useHeadingConstraint.ts
+import { useState } from "react";
+import { loadHeadingConstraint, saveHeadingConstraint } from "../lib/headingConstraints";
+import type { HeadingConstraint } from "../lib/headingConstraints";
+
+/** Heading constraint for a location, reloaded when the location changes and saved on edit. */
+export function useHeadingConstraint(locationKey: string) {
+  const [state, setState] = useState(() => ({ key: locationKey, constraint: loadHeadingConstraint(locationKey) }));
+
+  // Location changed: switch to that location's saved set
+  if (state.key !== locationKey) {
+    setState({ key: locationKey, constraint: loadHeadingConstraint(locationKey) });
+  }
+
+  function update(constraint: HeadingConstraint) {
+    setState({ key: locationKey, constraint });
+    saveHeadingConstraint(locationKey, constraint);
+  }
+
+  return [state.key === locationKey ? state.constraint : loadHeadingConstraint(locationKey), update] as const;
+}
@@ -0,0 +1,67 @@
+// src/hooks/useProfiles.ts
+import { useEffect, useState } from "react";
+import {
+  ACTIVE_PROFILE_STORAGE_KEY,
+  loadProfiles,
+  newProfileId,
+  parseProfilesJson,
+  saveProfiles,
+} from "../lib/profiles";
+import type { Profile, ProfileSettings } from "../lib/profiles";
+
+export type ProfileStore = ReturnType<typeof useProfiles>;
+
+/** Profile list + active selection, persisted to localStorage. */
+export function useProfiles() {
+  const [profiles, setProfiles] = useState<Profile[]>(() => loadProfiles());
+  const [activeId, setActiveId] = useState<string | null>(() => localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY));
+
+  useEffect(() => {
+    saveProfiles(profiles);
+  }, [profiles]);
+
+  useEffect(() => {
+    if (activeId) localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, activeId);
+    else localStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+  }, [activeId]);
+
+  const active = profiles.find(p => p.id === activeId) ?? null;
+
+  function create(name: string, settings: ProfileSettings) {
+    const profile = { id: newProfileId(), name, settings };
+    setProfiles(list => [...list, profile]);
+    setActiveId(profile.id);
+    return profile;
+  }
+
+  function update(id: string, settings: ProfileSettings) {
+    setProfiles(list => list.map(p => (p.id === id ? { ...p, settings } : p)));
+  }
+
+  function rename(id: string, name: string) {
+    setProfiles(list => list.map(p => (p.id === id ? { ...p, name } : p)));
+  }
+
+  function duplicate(id: string) {
+    const source = profiles.find(p => p.id === id);
+    if (!source) return null;
+    return create(`${source.name} (copy)`, source.settings);
+  }
+
+  function remove(id: string) {
+    setProfiles(list => list.filter(p => p.id !== id));
+    if (activeId === id) setActiveId(null);
+  }
+
+  /** Merge profiles from an exported file; throws if the file is unusable. */
+  function importJson(text: string) {
+    const imported = parseProfilesJson(text);
+    setProfiles(list => {
+      const ids = new Set(list.map(p => p.id));
+      return [...list, ...imported.map(p => (ids.has(p.id) ? { ...p, id: newProfileId() } : p))];
+    });
+    return imported.length;
+  }
+
+  return { profiles, active, select: setActiveId, create, update, rename, duplicate, remove, importJson };
+}
@@ -1,15 +1,17 @@
 // src/hooks/useWind.ts
 import { useEffect, useRef, useState } from "react";
+import { convertWindSpeed, defaultWeatherProvider, weatherAt } from "../lib/weather";
+import type { LatLng, WeatherProvider, WindUnit } from "../lib/weather";
 
 /* Types */
-export type LatLng = { lat: number; lon: number };
-export const WIND_UNITS = ["mph", "kmh", "ms", "kn"] as const;
-export type WindUnit = typeof WIND_UNITS[number];
+export { WIND_UNITS } from "../lib/weather";
+export type { LatLng, WindUnit } from "../lib/weather";
 
 export type UseWindOptions = {
   coords?: LatLng;  // if omitted, we'll try geolocation
   when?: Date;      // nearest hour to this; if omitted we freeze "now"
   unit?: WindUnit;  // mph | kmh | ms | kn
+  provider?: WeatherProvider; // defaults to cached Open-Meteo
 };
 
 export type WindData = {
@@ -19,6 +21,12 @@ export type WindData = {
   gust: number | null;
 };
 
+export type WindState = {
+  data: WindData | null;
+  loading: boolean;
+  error: string | null;
+};
+
 /* Helpers */
 export function toCompass(deg: number) {
   const dirs = ["N","NNE","NE","ENE","E","ESE","SE","SSE","S","SSW","SW","WSW","W","WNW","NW","NNW"];
@@ -40,12 +48,16 @@ export function windComponents(windFromDeg: number, headingDeg: number, speed: n
 }
 
 /* Hook */
-export function useWind(opts: UseWindOptions = {}) {
-  const { coords, unit = "mph" } = opts;
+export function useWind(opts: UseWindOptions = {}): WindState {
+  const { coords, unit = "mph", provider = defaultWeatherProvider } = opts;
+
+  const lat = coords?.lat;
+  const lon = coords?.lon;
 
-  // Freeze "now" once so we don't refetch every render
-  const stableWhenRef = useRef<Date>(opts.when ?? new Date());
-  const stableWhen = opts.when ?? stableWhenRef.current;
+  // Without a `when`, freeze "now" once so we don't refetch every render;
+  // depend on the timestamp so a new ride time refetches.
+  const nowRef = useRef<Date>(new Date());
+  const whenMs = (opts.when ?? nowRef.current).getTime();
 
   const [data, setData] = useState<WindData | null>(null);
   const [loading, setLoading] = useState(false);
@@ -53,10 +65,11 @@ export function useWind(opts: UseWindOptions = {}) {
 
   useEffect(() => {
     let alive = true;
-    const ac = new AbortController();
+    // Stale lookups (earlier coords or time) are cancelled rather than just ignored
+    const controller = new AbortController();
 
     async function getCoords(): Promise<LatLng> {
-      if (coords) return coords;
+      if (lat !== undefined && lon !== undefined) return { lat, lon };
       if (!("geolocation" in navigator)) throw new Error("Geolocation not available");
       return new Promise((resolve, reject) => {
         navigator.geolocation.getCurrentPosition(
@@ -72,52 +85,29 @@ export function useWind(opts: UseWindOptions = {}) {
         setLoading(true);
         setError(null); // keep old data visible
 
-        const { lat, lon } = await getCoords();
-
-        const url = new URL("https://api.open-meteo.com/v1/forecast");
-        url.searchParams.set("latitude", String(lat));
-        url.searchParams.set("longitude", String(lon));
-        url.searchParams.set("hourly", "windspeed_10m,winddirection_10m,windgusts_10m");
-        url.searchParams.set("timezone", "auto");
-        url.searchParams.set("past_days", "1");
-        url.searchParams.set("forecast_days", "2");
-        url.searchParams.set("wind_speed_unit", unit);
-
-        const res = await fetch(url.toString(), { signal: ac.signal });
-        if (!res.ok) throw new Error(`Open-Meteo error ${res.status}`);
-        const j = await res.json();
-
-        const times: string[] = j?.hourly?.time ?? [];
-        const speeds: number[] = j?.hourly?.windspeed_10m ?? [];
-        const dirs: number[] = j?.hourly?.winddirection_10m ?? [];
-        const gusts: number[] = j?.hourly?.windgusts_10m ?? [];
-        if (!times.length) throw new Error("No wind data returned");
-
-        // Nearest hour to stableWhen
-        const target = stableWhen.getTime();
-        let idx = 0, best = Infinity;
-        for (let i = 0; i < times.length; i++) {
-          const d = Math.abs(new Date(times[i]).getTime() - target);
-          if (d < best) { best = d; idx = i; }
-        }
+        const hourly = await provider.getHourly(await getCoords(), controller.signal);
+        const w = weatherAt(hourly, new Date(whenMs));
 
         if (!alive) return;
         setData({
-          time: times[idx],
-          speed: speeds[idx],
-          directionDeg: dirs[idx],
-          gust: gusts[idx] ?? null,
+          time: w.time,
+          speed: convertWindSpeed(w.windSpeedKmh, unit),
+          directionDeg: w.windDirectionDeg,
+          gust: w.windGustKmh == null ? null : convertWindSpeed(w.windGustKmh, unit),
         });
-      } catch (err: any) {
+      } catch (err) {
         if (!alive) return;
-        setError(err?.message ?? String(err));
+        setError(err instanceof Error || err instanceof GeolocationPositionError ? err.message : String(err));
       } finally {
         if (alive) setLoading(false);
       }
     })();
 
-    return () => { alive = false; ac.abort(); };
-  }, [coords?.lat, coords?.lon, unit]);
+    return () => {
+      alive = false;
+      controller.abort();
+    };
+  }, [lat, lon, whenMs, unit, provider]);
 
   return { data, loading, error };
 }
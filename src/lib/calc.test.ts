@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import type { Speed, Surface, TireType, WheelDiameter } from '../constants'
+import { computeWheelPsi, estimateTireGeometry, explainWheelPsi } from './calc'
+
+type ReferenceSetup = {
+  name: string
+  loadLbs: number
+  tireWidthMm: number
+  /** Published pressure for this wheel load and width (psi). */
+  psi: number
+}
+
+/**
+ * Frank Berto's 15 % tire-drop chart (published in Bicycle Quarterly), read through
+ * its widely used curve fit psi = 153.6 × load / width^1.5785 − 7.1685. It covers
+ * road tires on pavement, so the setups stay at 25–32 mm with neutral surface,
+ * speed and casing; wider tires are outside what the chart was measured on.
+ */
+const BERTO_SETUPS: ReferenceSetup[] = [
+  { name: '700C×25 front', loadLbs: 75, tireWidthMm: 25, psi: 64.4 },
+  { name: '700C×25 rear', loadLbs: 85, tireWidthMm: 25, psi: 74.0 },
+  { name: '700C×28 front', loadLbs: 76.8, tireWidthMm: 28, psi: 54.1 },
+  { name: '700C×28 rear', loadLbs: 83.2, tireWidthMm: 28, psi: 59.2 },
+  { name: '700C×28 rear (heavy rider)', loadLbs: 100, tireWidthMm: 28, psi: 72.6 },
+  { name: '700C×32 rear (heavy rider)', loadLbs: 100, tireWidthMm: 32, psi: 57.5 },
+]
+
+/** Relative tolerance: the chart's read-off and tire-to-tire casing differences are about this size. */
+const BERTO_TOLERANCE = 0.1
+
+const onPavement = ({ loadLbs, tireWidthMm }: ReferenceSetup) => ({
+  loadLbs,
+  tireWidthMm,
+  wheelDiameter: '700C/29"' as WheelDiameter,
+  surface: 'Worn Pavement / Some Cracks' as Surface,
+  speed: 'Moderate Group Ride' as Speed,
+  tireType: 'High performance tire tubeless/latex tube' as TireType,
+})
+
+const gravel = (wheelDiameter: WheelDiameter) => ({
+  loadLbs: 99.6,
+  tireWidthMm: 47,
+  wheelDiameter,
+  surface: 'Category 2 Gravel' as Surface,
+  speed: 'Moderate Group Ride' as Speed,
+  tireType: 'High performance tire tubeless/latex tube' as TireType,
+})
+
+describe('computeWheelPsi reference setups', () => {
+  it.each(BERTO_SETUPS)(`$name is within ${BERTO_TOLERANCE * 100}% of the chart's $psi psi`, (setup) => {
+    const psi = computeWheelPsi(onPavement(setup))
+    expect(Math.abs(psi / setup.psi - 1)).toBeLessThanOrEqual(BERTO_TOLERANCE)
+  })
+
+  it('runs a smaller wheel of the same width higher', () => {
+    expect(computeWheelPsi(gravel('650B/27.5"'))).toBeGreaterThan(computeWheelPsi(gravel('700C/29"')))
+  })
+
+  it('runs gravel lower than pavement', () => {
+    const setup = gravel('700C/29"')
+    expect(computeWheelPsi(setup)).toBeLessThan(computeWheelPsi({ ...setup, surface: 'New Pavement' }))
+  })
+
+  it('matches its step-by-step explanation', () => {
+    for (const setup of [...BERTO_SETUPS.map(onPavement), gravel('700C/29"'), gravel('650B/27.5"')]) {
+      const trace = explainWheelPsi(setup)
+      expect(trace.psi).toBe(computeWheelPsi(setup))
+      expect(trace.steps[trace.steps.length - 1].psi).toBe(trace.psi)
+    }
+  })
+})
+
+describe('estimateTireGeometry', () => {
+  it('stays finite for widths outside the model range', () => {
+    const g = estimateTireGeometry({ loadLbs: 80, psi: 60, tireWidthMm: 0, wheelDiameter: '700C/29"' })
+    expect(Number.isFinite(g.volumeL) && g.volumeL > 0).toBe(true)
+    expect(Number.isFinite(g.contactLengthMm)).toBe(true)
+  })
+})
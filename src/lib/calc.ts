@@ -1,7 +1,7 @@
 // VALUES (runtime)
-import { PSI_PER_BAR } from '../constants';
+import { CARGO_FRONT_SHARE, CARGO_PLACEMENTS, DEFAULT_FRONT_PCT, FRONT_PCT_RANGE, PSI_PER_BAR, WEIGHT_SPLITS, WHEEL_BSD_MM } from '../constants';
 // TYPES (erased at build time)
-import type { Surface, Speed, TireType, WheelDiameter } from '../constants';
+import type { CargoItem, CargoPlacement, Surface, Speed, TireType, WheelDiameter } from '../constants';
 
 
 /**
@@ -40,6 +40,54 @@ export const SPEED_MULT = {
   'Fast Single Track': 0.03,
 } as const satisfies Record<Speed, number>
 
+/**
+ * Ride-condition modifiers, applied like SURFACE_MULT (psi × (1 + value)).
+ * Wet: riders commonly drop 5–10% for grip on wet tarmac; we use 6%.
+ * Night: a little more compliance for potholes and debris you can't see.
+ */
+export type RideConditions = { wet: boolean; night: boolean }
+export const DRY_DAY: RideConditions = { wet: false, night: false }
+export const CONDITION_MULT = {
+  wet: -0.06,
+  night: -0.02,
+} as const satisfies Record<keyof RideConditions, number>
+
+/**
+ * Tire volume / casing model.
+ * The tire is treated as a torus sitting on the bead seat with a section
+ * height equal to its width. Pressure is scaled by (V_ref / V)^volumeExponent,
+ * where V_ref is the same width on `refBsdMm`, so 700C numbers match the
+ * width-only heuristic and smaller wheels (less air, shorter patch) run higher.
+ */
+export const TIRE_MODEL = {
+  refBsdMm: 622,
+  volumeExponent: 0.5,
+  sectionHeightRatio: 1,  // casing height as a fraction of width
+  patchWidthRatio: 0.7,   // contact patch width as a fraction of tire width
+} as const
+
+/** Tire widths the model covers; anything outside is treated as the nearest end. */
+export const TIRE_WIDTH_RANGE_MM = { min: 20, max: 90 } as const
+const modelWidthMm = (tireWidthMm: number) => clamp(tireWidthMm, TIRE_WIDTH_RANGE_MM.min, TIRE_WIDTH_RANGE_MM.max)
+
+const MM3_PER_L = 1e6
+const CM2_PER_IN2 = 6.4516
+
+/** The tunable part of the heuristic; UI overrides produce a full copy of this. */
+export type ModelCoefficients = {
+  k: number
+  surfaceMult: Record<Surface, number>
+  speedMult: Record<Speed, number>
+  tireTypeOffset: Record<TireType, number>
+}
+
+export const DEFAULT_COEFFICIENTS: ModelCoefficients = {
+  k: K,
+  surfaceMult: SURFACE_MULT,
+  speedMult: SPEED_MULT,
+  tireTypeOffset: TIRE_TYPE_OFFSET,
+}
+
 export const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v))
 
 export type ComputeWheelPsiParams = {
@@ -48,21 +96,187 @@ export type ComputeWheelPsiParams = {
   surface: Surface
   speed: Speed
   tireType: TireType
-  wheelDiameter: WheelDiameter // reserved for future use
+  wheelDiameter: WheelDiameter
+  conditions?: RideConditions
+  coefficients?: ModelCoefficients
+  fit?: PersonalFit
+}
+
+/**
+ * A rider's personal correction fitted from known-good pressures:
+ * the scaled (K) part is multiplied by `scale`, then `offsetPsi` is added
+ * on top of the tire-type offset.
+ */
+export type PersonalFit = { scale: number; offsetPsi: number }
+export const IDENTITY_FIT: PersonalFit = { scale: 1, offsetPsi: 0 }
+
+/** Air volume (litres) of a tire, approximated as a torus on the bead seat. */
+export function tireVolumeL(bsdMm: number, tireWidthMm: number) {
+  const r = (tireWidthMm * TIRE_MODEL.sectionHeightRatio) / 2
+  const R = bsdMm / 2 + r
+  return (2 * Math.PI ** 2 * R * r * r) / MM3_PER_L
+}
+
+/** Pressure multiplier for a wheel size relative to the reference bead seat. */
+export function volumeFactor(wheelDiameter: WheelDiameter, tireWidthMm: number) {
+  const v = tireVolumeL(WHEEL_BSD_MM[wheelDiameter], tireWidthMm)
+  const vRef = tireVolumeL(TIRE_MODEL.refBsdMm, tireWidthMm)
+  return (vRef / v) ** TIRE_MODEL.volumeExponent
+}
+
+export type TireGeometry = {
+  volumeL: number
+  contactAreaCm2: number
+  contactLengthMm: number
+}
+
+/**
+ * Estimate air volume and contact patch for a wheel at a given pressure.
+ * Patch area is load / pressure; length follows from the patch width.
+ */
+export function estimateTireGeometry({ loadLbs, psi, tireWidthMm, wheelDiameter }: {
+  loadLbs: number
+  psi: number
+  tireWidthMm: number
+  wheelDiameter: WheelDiameter
+}): TireGeometry {
+  const widthMm = modelWidthMm(tireWidthMm)
+  const contactAreaCm2 = psi > 0 ? (loadLbs / psi) * CM2_PER_IN2 : 0
+  return {
+    volumeL: tireVolumeL(WHEEL_BSD_MM[wheelDiameter], widthMm),
+    contactAreaCm2,
+    contactLengthMm: (contactAreaCm2 * 100) / (widthMm * TIRE_MODEL.patchWidthRatio),
+  }
+}
+
+/** A multiplier in the scaled part of the model, named for the breakdown. */
+type ModelFactor = { label: string; factor: number }
+
+/** K × load / width and every multiplier applied to it, in order. */
+function scaledFactors({ loadLbs, tireWidthMm, surface, speed, wheelDiameter, conditions = DRY_DAY, coefficients = DEFAULT_COEFFICIENTS }: ComputeWheelPsiParams) {
+  const { k, surfaceMult, speedMult } = coefficients
+  const safeTireWidthMm = modelWidthMm(tireWidthMm)
+  const factors: ModelFactor[] = [
+    { label: `Wheel size (${wheelDiameter} air volume)`, factor: volumeFactor(wheelDiameter, safeTireWidthMm) },
+    { label: `Surface: ${surface}`, factor: 1 + surfaceMult[surface] },
+    { label: `Speed: ${speed}`, factor: 1 + speedMult[speed] },
+  ]
+  if (conditions.wet) factors.push({ label: 'Wet roads', factor: 1 + CONDITION_MULT.wet })
+  if (conditions.night) factors.push({ label: 'Riding at night', factor: 1 + CONDITION_MULT.night })
+  return { k, safeTireWidthMm, base: k * (loadLbs / safeTireWidthMm), factors }
+}
+
+/**
+ * The two unclamped parts of the model: the multiplicative term
+ * (K × load / width × volume × surface × speed × conditions) and the additive tire offset.
+ */
+export function wheelPsiTerms(params: ComputeWheelPsiParams) {
+  const { base, factors } = scaledFactors(params)
+  const { tireTypeOffset } = params.coefficients ?? DEFAULT_COEFFICIENTS
+  return { scaled: factors.reduce((psi, f) => psi * f.factor, base), offset: tireTypeOffset[params.tireType] }
+}
+
+/**
+ * One step of the calculation. `psi` is the running value after the step;
+ * `factor` or `deltaPsi` says what the step did to it.
+ */
+export type PsiStep = { label: string; psi: number; factor?: number; deltaPsi?: number }
+export type PsiTrace = { steps: PsiStep[]; psi: number; clamped: boolean }
+
+/** computeWheelPsi, step by step, for the "why this number" breakdown. */
+export function explainWheelPsi(params: ComputeWheelPsiParams): PsiTrace {
+  const { loadLbs, tireWidthMm, tireType, fit = IDENTITY_FIT } = params
+  const { k, safeTireWidthMm, base, factors } = scaledFactors(params)
+  const { tireTypeOffset } = params.coefficients ?? DEFAULT_COEFFICIENTS
+  const widthNote = safeTireWidthMm === tireWidthMm ? '' : ` (${tireWidthMm} mm limited to the model's ${TIRE_WIDTH_RANGE_MM.min}–${TIRE_WIDTH_RANGE_MM.max} mm)`
+  const steps: PsiStep[] = [{ label: `Base K × load / width = ${k} × ${loadLbs.toFixed(1)} lb / ${safeTireWidthMm} mm${widthNote}`, psi: base }]
+  let psi = base
+  const scale = (label: string, factor: number) => {
+    psi *= factor
+    steps.push({ label, psi, factor })
+  }
+  const add = (label: string, deltaPsi: number) => {
+    psi += deltaPsi
+    steps.push({ label, psi, deltaPsi })
+  }
+  factors.forEach(f => scale(f.label, f.factor))
+  if (fit.scale !== 1) scale('Personal fit (scale)', fit.scale)
+  add(`Tire type: ${tireType}`, tireTypeOffset[tireType])
+  if (fit.offsetPsi !== 0) add('Personal fit (offset)', fit.offsetPsi)
+  const clampedPsi = clamp(psi, 15, 130)
+  const clamped = clampedPsi !== psi
+  if (clamped) {
+    steps.push({ label: `Clamped to the model's ${clampedPsi > psi ? 'minimum' : 'maximum'}`, psi: clampedPsi, deltaPsi: clampedPsi - psi })
+    psi = clampedPsi
+  }
+  return { steps, psi, clamped }
 }
 
 /**
  * Compute single-wheel PSI from a simple heuristic model.
  * Returns a clamped PSI (15–130). Caller can round as desired.
  */
-export function computeWheelPsi({ loadLbs, tireWidthMm, surface, speed, tireType }: ComputeWheelPsiParams) {
-  const safeTireWidthMm = clamp(tireWidthMm, 20, 90)
-  let psi = K * (loadLbs / safeTireWidthMm)
-  psi *= 1 + SURFACE_MULT[surface]
-  psi *= 1 + SPEED_MULT[speed]
-  psi += TIRE_TYPE_OFFSET[tireType]
-  return clamp(psi, 15, 130)
+export function computeWheelPsi(params: ComputeWheelPsiParams) {
+  return explainWheelPsi(params).psi
 }
 
+/**
+ * Resolve a stored split to a front percentage. Accepts a number ("46.5")
+ * or, for older links, one of the WEIGHT_SPLITS labels.
+ */
+export function parseFrontPct(raw: string | null | undefined): number {
+  if (raw == null || raw.trim() === '') return DEFAULT_FRONT_PCT
+  const n = Number(raw)
+  if (Number.isFinite(n)) return clamp(n, FRONT_PCT_RANGE.min, FRONT_PCT_RANGE.max)
+  const preset = WEIGHT_SPLITS.find(s => s.label === raw)
+  return preset ? preset.front * 100 : DEFAULT_FRONT_PCT
+}
+
+/**
+ * Front percentage from two scale readings, one under each wheel.
+ * Units don't matter as long as both readings use the same one.
+ * Returns null until both readings are positive.
+ */
+export function splitFromScaleReadings(frontReading: number, rearReading: number): number | null {
+  if (!(frontReading > 0) || !(rearReading > 0)) return null
+  return (frontReading / (frontReading + rearReading)) * 100
+}
+
+export type WheelLoads = { frontLbs: number; rearLbs: number; totalLbs: number }
+
+/**
+ * Per-wheel loads from weight components. Rider + bike follow the front
+ * split; each cargo item is placed by CARGO_FRONT_SHARE for its position.
+ */
+export function computeWheelLoads({ riderLbs, bikeLbs, cargo, frontPct }: {
+  riderLbs: number
+  bikeLbs: number
+  cargo: readonly { weightLbs: number; placement: CargoPlacement }[]
+  frontPct: number
+}): WheelLoads {
+  const base = riderLbs + bikeLbs
+  let frontLbs = base * (frontPct / 100)
+  let totalLbs = base
+  for (const item of cargo) {
+    frontLbs += item.weightLbs * CARGO_FRONT_SHARE[item.placement]
+    totalLbs += item.weightLbs
+  }
+  return { frontLbs, rearLbs: totalLbs - frontLbs, totalLbs }
+}
+
+/** Parse cargo stored as "front:2.5,rear:4"; unknown or invalid entries are dropped. */
+export function parseCargo(raw: string | null | undefined): CargoItem[] {
+  if (!raw) return []
+  return raw.split(',').flatMap((entry) => {
+    const [placement, weight] = entry.split(':')
+    const n = Number(weight)
+    if (!CARGO_PLACEMENTS.includes(placement as CargoPlacement) || !Number.isFinite(n) || n < 0) return []
+    return [{ placement: placement as CargoPlacement, weight: n }]
+  })
+}
+
+export const serializeCargo = (cargo: readonly CargoItem[]) =>
+  cargo.map(c => `${c.placement}:${c.weight}`).join(',')
+
 /** Convert PSI → BAR. */
 export const toBar = (psi: number) => psi / PSI_PER_BAR
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { computeWheelPsi, DEFAULT_COEFFICIENTS } from './calc'
+import { fitPersonalModel } from './calibration'
+import type { CalibrationPoint, WheelSetup } from './calibration'
+
+const road = (loadLbs: number, tireWidthMm = 28): WheelSetup => ({
+  loadLbs,
+  tireWidthMm,
+  wheelDiameter: '700C/29"',
+  surface: 'Worn Pavement / Some Cracks',
+  speed: 'Moderate Group Ride',
+  tireType: 'High performance tire tubeless/latex tube',
+})
+
+const point = (id: string, front: WheelSetup, rear: WheelSetup, frontPsi: number, rearPsi: number): CalibrationPoint => ({
+  id, label: id, front: { ...front, psi: frontPsi }, rear: { ...rear, psi: rearPsi },
+})
+
+describe('fitPersonalModel', () => {
+  it('fits only a scale from a single setup, even with a front/rear spread', () => {
+    // The model says about 55/59.4 psi here; front and rear alone would pin scale 0 and +20 psi
+    const fit = fitPersonalModel([point('road', road(76.8), road(83.2), 60, 60)], DEFAULT_COEFFICIENTS)!
+    expect(fit.scaleOnly).toBe(true)
+    expect(fit.offsetPsi).toBe(0)
+    expect(fit.scale).toBeGreaterThan(1)
+    expect(fit.scale).toBeLessThan(60 / computeWheelPsi({ ...road(76.8), coefficients: DEFAULT_COEFFICIENTS }))
+  })
+
+  it('fits an offset once two distinct setups spread the predictions', () => {
+    const points = [
+      point('road', road(76.8), road(83.2), 58, 62),
+      point('wide', road(76.8, 35), road(83.2, 35), 48, 51),
+    ]
+    const fit = fitPersonalModel(points, DEFAULT_COEFFICIENTS)!
+    expect(fit.scaleOnly).toBe(false)
+    expect(fit.samples).toBe(4)
+  })
+
+  it('counts the same setup saved twice as one', () => {
+    const points = [point('a', road(76.8), road(83.2), 60, 60), point('b', road(76.8), road(83.2), 61, 61)]
+    expect(fitPersonalModel(points, DEFAULT_COEFFICIENTS)!.scaleOnly).toBe(true)
+  })
+})
@@ -0,0 +1,107 @@
+// src/lib/calibration.ts
+// Personal calibration: known-good pressures on real setups, and a least-squares
+// fit of the model's scale (K) and offset to them.
+import { SPEEDS, SURFACES, TIRE_TYPES, WHEEL_DIAMETERS } from '../constants';
+import { IDENTITY_FIT, wheelPsiTerms } from './calc';
+import type { ComputeWheelPsiParams, ModelCoefficients, PersonalFit } from './calc';
+
+/** One wheel of a calibration setup: everything the model needs except coefficients. */
+export type WheelSetup = Omit<ComputeWheelPsiParams, 'coefficients' | 'fit'>;
+
+export type CalibrationPoint = {
+  id: string;
+  label: string;
+  front: WheelSetup & { psi: number };
+  rear: WheelSetup & { psi: number };
+};
+
+export type FitResult = PersonalFit & {
+  samples: number;   // wheels used
+  rmsePsi: number;   // residual after the fit
+  scaleOnly: boolean;
+};
+
+export const CALIBRATION_STORAGE_KEY = 'tpc.calibration';
+
+/**
+ * An offset needs at least two distinct setups whose predicted psi differ by this
+ * much; otherwise only the scale is fitted (through the origin). One setup's front
+ * and rear alone would pin both exactly, to whatever its two readings imply.
+ */
+const MIN_SETUPS_FOR_OFFSET = 2;
+const MIN_SPREAD_FOR_OFFSET_PSI = 3;
+
+/** Points describing the same bike setup (pressures aside) count once toward MIN_SETUPS_FOR_OFFSET. */
+const setupKey = ({ front, rear }: CalibrationPoint) =>
+  JSON.stringify([front, rear].map(w => ({ ...w, psi: 0 })));
+/** Keep fits within a sane band so one odd data point can't run away. */
+export const FIT_LIMITS = { scale: [0.5, 2], offsetPsi: [-20, 20] } as const;
+
+const clampTo = (v: number, [min, max]: readonly [number, number]) => Math.max(min, Math.min(max, v));
+
+/**
+ * Least-squares fit of `observed - tireOffset ≈ scale × scaled + offsetPsi`
+ * over every wheel in `points`, using the current coefficients as the stock model.
+ * Returns null with no usable points.
+ */
+export function fitPersonalModel(points: readonly CalibrationPoint[], coefficients: ModelCoefficients): FitResult | null {
+  const samples = points.flatMap(p => [p.front, p.rear]).filter(w => w.psi > 0);
+  if (!samples.length) return null;
+  const setups = new Set(points.filter(p => p.front.psi > 0 || p.rear.psi > 0).map(setupKey)).size;
+
+  const xy = samples.map(w => {
+    const { scaled, offset } = wheelPsiTerms({ ...w, coefficients });
+    return { x: scaled, y: w.psi - offset };
+  });
+  const n = xy.length;
+  const meanX = xy.reduce((a, p) => a + p.x, 0) / n;
+  const meanY = xy.reduce((a, p) => a + p.y, 0) / n;
+  const spread = Math.max(...xy.map(p => p.x)) - Math.min(...xy.map(p => p.x));
+
+  let scale: number;
+  let offsetPsi: number;
+  const scaleOnly = setups < MIN_SETUPS_FOR_OFFSET || spread < MIN_SPREAD_FOR_OFFSET_PSI;
+  if (scaleOnly) {
+    const sxx = xy.reduce((a, p) => a + p.x * p.x, 0);
+    scale = sxx > 0 ? xy.reduce((a, p) => a + p.x * p.y, 0) / sxx : 1;
+    offsetPsi = 0;
+  } else {
+    const sxx = xy.reduce((a, p) => a + (p.x - meanX) ** 2, 0);
+    const sxy = xy.reduce((a, p) => a + (p.x - meanX) * (p.y - meanY), 0);
+    scale = sxy / sxx;
+    offsetPsi = meanY - scale * meanX;
+  }
+  scale = clampTo(scale, FIT_LIMITS.scale);
+  offsetPsi = clampTo(offsetPsi, FIT_LIMITS.offsetPsi);
+
+  const rmsePsi = Math.sqrt(xy.reduce((a, p) => a + (scale * p.x + offsetPsi - p.y) ** 2, 0) / n);
+  return { scale, offsetPsi, samples: n, rmsePsi, scaleOnly };
+}
+
+export const isIdentityFit = (fit: PersonalFit) =>
+  fit.scale === IDENTITY_FIT.scale && fit.offsetPsi === IDENTITY_FIT.offsetPsi;
+
+const isOneOf = <T extends string>(list: readonly T[], v: unknown): v is T => list.includes(v as T);
+
+const isWheel = (raw: unknown): raw is WheelSetup & { psi: number } => {
+  if (typeof raw !== 'object' || raw === null) return false;
+  const w = raw as Record<string, unknown>;
+  return typeof w.psi === 'number' && typeof w.loadLbs === 'number' && typeof w.tireWidthMm === 'number'
+    && isOneOf(SURFACES, w.surface) && isOneOf(SPEEDS, w.speed)
+    && isOneOf(TIRE_TYPES, w.tireType) && isOneOf(WHEEL_DIAMETERS, w.wheelDiameter);
+};
+
+export function loadCalibrationPoints(): CalibrationPoint[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(CALIBRATION_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw.filter((p): p is CalibrationPoint =>
+      typeof p?.id === 'string' && typeof p?.label === 'string' && isWheel(p.front) && isWheel(p.rear));
+  } catch {
+    return [];
+  }
+}
+
+export function saveCalibrationPoints(points: CalibrationPoint[]) {
+  localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(points));
+}
@@ -0,0 +1,132 @@
+// src/lib/coefficients.ts
+// User overrides for the heuristic coefficients in calc.ts: validation,
+// merging over the defaults, and a compact URL encoding.
+import { SPEEDS, SURFACES, TIRE_TYPES } from '../constants';
+import type { Speed, Surface, TireType } from '../constants';
+import { DEFAULT_COEFFICIENTS } from './calc';
+import type { ModelCoefficients } from './calc';
+
+export type CoefficientOverrides = {
+  k?: number;
+  surfaceMult?: Partial<Record<Surface, number>>;
+  speedMult?: Partial<Record<Speed, number>>;
+  tireTypeOffset?: Partial<Record<TireType, number>>;
+};
+
+export type CoefficientTable = Exclude<keyof ModelCoefficients, 'k'>;
+
+/** Accepted [min, max] for each kind of coefficient. */
+export const COEFFICIENT_LIMITS = {
+  k: [5, 50],
+  surfaceMult: [-0.9, 1],
+  speedMult: [-0.5, 0.5],
+  tireTypeOffset: [-20, 30],
+} as const satisfies Record<keyof ModelCoefficients, readonly [number, number]>;
+
+/** Option lists backing each table, used for URL indices. */
+const TABLE_KEYS = {
+  surfaceMult: SURFACES,
+  speedMult: SPEEDS,
+  tireTypeOffset: TIRE_TYPES,
+} as const satisfies Record<CoefficientTable, readonly string[]>;
+
+/** One-letter URL prefixes: `k:22;s3:-0.05;v0:0;t2:4` */
+const URL_PREFIX = { surfaceMult: 's', speedMult: 'v', tireTypeOffset: 't' } as const satisfies Record<CoefficientTable, string>;
+
+/** Returns an error message, or null if `value` is a valid coefficient of this kind. */
+export function validateCoefficient(kind: keyof ModelCoefficients, value: number): string | null {
+  const [min, max] = COEFFICIENT_LIMITS[kind];
+  if (!Number.isFinite(value)) return 'Enter a number';
+  if (value < min || value > max) return `Must be between ${min} and ${max}`;
+  return null;
+}
+
+const valid = (kind: keyof ModelCoefficients, v: unknown): v is number =>
+  typeof v === 'number' && validateCoefficient(kind, v) === null;
+
+/** Overrides merged over DEFAULT_COEFFICIENTS; invalid entries are ignored. */
+export function resolveCoefficients(overrides: CoefficientOverrides = {}): ModelCoefficients {
+  const merge = <T extends string>(kind: CoefficientTable, base: Record<T, number>, over?: Partial<Record<T, number>>) => {
+    const out = { ...base };
+    for (const key of Object.keys(base) as T[]) {
+      const v = over?.[key];
+      if (valid(kind, v)) out[key] = v;
+    }
+    return out;
+  };
+  return {
+    k: valid('k', overrides.k) ? overrides.k : DEFAULT_COEFFICIENTS.k,
+    surfaceMult: merge('surfaceMult', DEFAULT_COEFFICIENTS.surfaceMult, overrides.surfaceMult),
+    speedMult: merge('speedMult', DEFAULT_COEFFICIENTS.speedMult, overrides.speedMult),
+    tireTypeOffset: merge('tireTypeOffset', DEFAULT_COEFFICIENTS.tireTypeOffset, overrides.tireTypeOffset),
+  };
+}
+
+export function hasOverrides(o: CoefficientOverrides) {
+  return o.k !== undefined || (Object.keys(TABLE_KEYS) as CoefficientTable[]).some(t => Object.keys(o[t] ?? {}).length > 0);
+}
+
+/** Set (or with `undefined`, clear) a single table entry. */
+export function setTableOverride(
+  o: CoefficientOverrides,
+  table: CoefficientTable,
+  key: string,
+  value: number | undefined
+): CoefficientOverrides {
+  const next: Record<string, number> = { ...o[table] };
+  const defaults: Record<string, number> = DEFAULT_COEFFICIENTS[table];
+  if (value === undefined || value === defaults[key]) delete next[key];
+  else next[key] = value;
+  return { ...o, [table]: next };
+}
+
+export function serializeCoefficientOverrides(o: CoefficientOverrides): string {
+  const parts: string[] = [];
+  if (o.k !== undefined) parts.push(`k:${o.k}`);
+  for (const table of Object.keys(TABLE_KEYS) as CoefficientTable[]) {
+    const keys: readonly string[] = TABLE_KEYS[table];
+    const entries = (o[table] ?? {}) as Record<string, number>;
+    keys.forEach((key, i) => {
+      if (entries[key] !== undefined) parts.push(`${URL_PREFIX[table]}${i}:${entries[key]}`);
+    });
+  }
+  return parts.join(';');
+}
+
+/** Parse the `coef` query value; unknown or out-of-range entries are dropped. */
+export function parseCoefficientOverrides(raw: string | null | undefined): CoefficientOverrides {
+  const out: CoefficientOverrides = {};
+  if (!raw) return out;
+  for (const part of raw.split(';')) {
+    const [id, value] = part.split(':');
+    const n = Number(value);
+    if (id === 'k') {
+      if (valid('k', n)) out.k = n;
+      continue;
+    }
+    const table = (Object.keys(URL_PREFIX) as CoefficientTable[]).find(t => URL_PREFIX[t] === id?.[0]);
+    const key = table ? TABLE_KEYS[table][Number(id.slice(1))] : undefined;
+    if (!table || key === undefined || !valid(table, n)) continue;
+    out[table] = { ...out[table], [key]: n };
+  }
+  return out;
+}
+
+/** Validate overrides from an untrusted source (e.g. an imported profile). */
+export function sanitizeCoefficientOverrides(raw: unknown): CoefficientOverrides {
+  if (typeof raw !== 'object' || raw === null) return {};
+  const r = raw as Record<string, unknown>;
+  const out: CoefficientOverrides = {};
+  if (valid('k', r.k)) out.k = r.k;
+  for (const table of Object.keys(TABLE_KEYS) as CoefficientTable[]) {
+    const src = r[table];
+    if (typeof src !== 'object' || src === null) continue;
+    const entries: Record<string, number> = {};
+    for (const key of TABLE_KEYS[table]) {
+      const v = (src as Record<string, unknown>)[key];
+      if (valid(table, v)) entries[key] = v;
+    }
+    if (Object.keys(entries).length) out[table] = entries;
+  }
+  return out;
+}
@@ -0,0 +1,51 @@
+// src/lib/conditions.ts
+// Wet/night ride conditions from the forecast, with manual overrides.
+import { CONDITION_MULT } from './calc';
+import type { RideConditions } from './calc';
+import { nearestHourIndex } from './weather';
+import type { HourlyWeather } from './weather';
+
+/** `auto` follows the forecast; the others force the condition on or off. */
+export const CONDITION_MODES = ['auto', 'on', 'off'] as const;
+export type ConditionMode = typeof CONDITION_MODES[number];
+
+/** Rain (mm/h) in the ride hour or the hours before it that leaves roads wet. */
+export const WET_PRECIP_MM = 0.2;
+export const WET_LOOKBACK_H = 2;
+
+export type ForecastConditions = {
+  wet: boolean | null;    // null = forecast has no precipitation data
+  night: boolean | null;
+  precipitationMm: number | null;   // wettest hour in the lookback window
+};
+
+export function forecastConditions(hourly: HourlyWeather, when: Date): ForecastConditions {
+  if (!hourly.time.length) return { wet: null, night: null, precipitationMm: null };
+  const i = nearestHourIndex(hourly.time, when);
+  const window = (hourly.precipitationMm ?? [])
+    .slice(Math.max(0, i - WET_LOOKBACK_H), i + 1)
+    .filter((p): p is number => typeof p === 'number');
+  const precipitationMm = window.length ? Math.max(...window) : null;
+  const isDay = hourly.isDay?.[i];
+  return {
+    wet: precipitationMm == null ? null : precipitationMm >= WET_PRECIP_MM,
+    night: isDay == null ? null : !isDay,
+    precipitationMm,
+  };
+}
+
+export function resolveCondition(mode: ConditionMode, forecast: boolean | null) {
+  return mode === 'auto' ? forecast ?? false : mode === 'on';
+}
+
+/** One line per active modifier, for the results. */
+export function describeConditions(conditions: RideConditions, forecast: ForecastConditions | null): string[] {
+  const pct = (v: number) => `${v > 0 ? '+' : '−'}${Math.abs(v * 100).toFixed(0)}%`;
+  const notes: string[] = [];
+  if (conditions.wet) {
+    const rain = forecast?.wet && forecast.precipitationMm != null ? ` (forecast ${forecast.precipitationMm.toFixed(1)} mm/h)` : '';
+    notes.push(`Wet roads${rain}: ${pct(CONDITION_MULT.wet)} for grip.`);
+  }
+  if (conditions.night) notes.push(`Night ride: ${pct(CONDITION_MULT.night)} for unseen potholes and debris.`);
+  return notes;
+}
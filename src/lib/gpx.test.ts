@@ -0,0 +1,28 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { parseGpx, routeDistanceM } from './gpx'
+
+const gpx = (points: string) =>
+  `<?xml version="1.0"?><gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1"><trk><name>Loop</name><trkseg>${points}</trkseg></trk></gpx>`
+
+describe('parseGpx', () => {
+  it('reads track points with elevation', () => {
+    const route = parseGpx(gpx('<trkpt lat="46.5" lon="6.6"><ele>372</ele></trkpt><trkpt lat="46.51" lon="6.6"/>'))
+    expect(route.name).toBe('Loop')
+    expect(route.points).toEqual([{ lat: 46.5, lon: 6.6, ele: 372 }, { lat: 46.51, lon: 6.6 }])
+  })
+
+  it('skips points with missing or unusable coordinates instead of reading them as 0,0', () => {
+    const route = parseGpx(gpx([
+      '<trkpt lat="46.5" lon="6.6"/>',
+      '<trkpt lat="46.505"/>',
+      '<trkpt lon="6.6"/>',
+      '<trkpt lat="" lon="6.6"/>',
+      '<trkpt lat="abc" lon="6.6"/>',
+      '<trkpt lat="146.5" lon="6.6"/>',
+      '<trkpt lat="46.51" lon="6.6"/>',
+    ].join('')))
+    expect(route.points).toHaveLength(2)
+    expect(routeDistanceM(route.points)).toBeLessThan(1200)
+  })
+})
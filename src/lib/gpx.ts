@@ -0,0 +1,111 @@
+// src/lib/gpx.ts
+// GPX parsing (in the browser, nothing uploaded) and route geometry helpers.
+import { isValidLatLng, parseLatLng } from './places';
+import type { LatLng } from './weather';
+
+export type RoutePoint = LatLng & { ele?: number };
+
+export type Route = {
+  name: string;
+  points: RoutePoint[];
+};
+
+export type RouteSegment = {
+  from: RoutePoint;
+  to: RoutePoint;
+  distanceM: number;
+  startDistanceM: number; // distance from the route start to `from`
+  bearingDeg: number;     // initial bearing, 0 = north
+};
+
+const EARTH_RADIUS_M = 6371008.8;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+/** Great-circle distance in meters. */
+export function haversineM(a: LatLng, b: LatLng) {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Initial bearing from a to b in degrees [0, 360). */
+export function initialBearingDeg(a: LatLng, b: LatLng) {
+  const lat1 = toRad(a.lat), lat2 = toRad(b.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+/** Consecutive segments of a route; zero-length hops (duplicate points) are skipped. */
+export function routeSegments(points: readonly RoutePoint[]): RouteSegment[] {
+  const segments: RouteSegment[] = [];
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1], to = points[i];
+    const distanceM = haversineM(from, to);
+    if (distanceM < 0.5) continue;
+    segments.push({ from, to, distanceM, startDistanceM: distance, bearingDeg: initialBearingDeg(from, to) });
+    distance += distanceM;
+  }
+  return segments;
+}
+
+export const routeDistanceM = (points: readonly RoutePoint[]) =>
+  routeSegments(points).reduce((a, s) => a + s.distanceM, 0);
+
+/** Start, lowest and highest elevation (m) from the route's <ele> values, or null if it has none. */
+export function routeElevationProfile(points: readonly RoutePoint[]): { startM: number; minM: number; maxM: number } | null {
+  const eles = points.map(p => p.ele).filter((e): e is number => typeof e === 'number' && Number.isFinite(e));
+  if (!eles.length) return null;
+  return { startM: eles[0], minM: Math.min(...eles), maxM: Math.max(...eles) };
+}
+
+const coordinate = (raw: string | null) => (raw == null || raw.trim() === '' ? NaN : Number(raw));
+
+/**
+ * Parse GPX text into a single route. Track points are used when present,
+ * otherwise route points. Throws a readable error for unusable files.
+ */
+export function parseGpx(xml: string): Route {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error('Not a valid GPX (XML) file');
+  if (doc.documentElement.localName !== 'gpx') throw new Error('Not a GPX file');
+
+  const pick = (tag: string) => Array.from(doc.getElementsByTagNameNS('*', tag));
+  const nodes = pick('trkpt').length ? pick('trkpt') : pick('rtept');
+  const points: RoutePoint[] = [];
+  for (const n of nodes) {
+    // A missing attribute must not read as 0 (Number(null)), i.e. a point off the coast of Africa
+    const lat = coordinate(n.getAttribute('lat'));
+    const lon = coordinate(n.getAttribute('lon'));
+    if (!isValidLatLng({ lat, lon })) continue;
+    const eleText = n.getElementsByTagNameNS('*', 'ele')[0]?.textContent;
+    const ele = eleText != null && eleText.trim() !== '' ? Number(eleText) : NaN;
+    points.push(Number.isFinite(ele) ? { lat, lon, ele } : { lat, lon });
+  }
+  if (points.length < 2) throw new Error('GPX file has no track or route points');
+
+  const name = pick('name')[0]?.textContent?.trim() || 'Imported route';
+  return { name, points };
+}
+
+/**
+ * Build a loop from typed waypoints, one "lat, lon" per line. Segments are
+ * straight lines between waypoints; the loop is closed back to the first one.
+ */
+export function parseWaypoints(text: string, name = 'Waypoint loop'): Route {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  const points: RoutePoint[] = [];
+  lines.forEach((line, i) => {
+    const p = parseLatLng(line);
+    if (!p) throw new Error(`Line ${i + 1}: expected "lat, lon"`);
+    points.push(p);
+  });
+  if (points.length < 3) throw new Error('Enter at least 3 waypoints for a loop');
+  const first = points[0], last = points[points.length - 1];
+  if (haversineM(first, last) > 1) points.push({ ...first });
+  return { name, points };
+}
@@ -0,0 +1,131 @@
+// src/lib/heading.ts
+// Heading maths shared by the wind, route and constraint code, and wind scoring:
+// which way to ride for the best tailwind with the least crosswind.
+// windFromDeg uses the meteorological convention (0° = wind FROM North); speeds can be in any
+// unit since only components are compared.
+
+// -------------------- Math utilities --------------------
+export const clampDeg = (deg: number) => ((deg % 360) + 360) % 360;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Smallest signed angular difference a - b in [-180, 180] */
+export function angleDiff(a: number, b: number): number {
+  const d = clampDeg(a) - clampDeg(b);
+  const wrapped = ((d + 540) % 360) - 180; // shift to [-180, 180]
+  return wrapped;
+}
+
+const COMPASS_16 = [
+  "N","NNE","NE","ENE","E","ESE","SE","SSE",
+  "S","SSW","SW","WSW","W","WNW","NW","NNW",
+];
+
+export function bearingToCompass(deg: number): string {
+  const i = Math.round(clampDeg(deg) / 22.5) % 16;
+  return COMPASS_16[i];
+}
+
+// -------------------- Core scoring --------------------
+export type Recommendation = {
+  headingDeg: number;        // where to ride (bearing TO)
+  headingLabel: string;      // e.g., "ESE"
+  score: number;             // higher is better (tailwind - penalty * crosswind)
+  tailComponent: number;     // +tailwind (same units as windSpeed)
+  crossComponent: number;    // |crosswind|
+  gustCrossComponent: number | null; // |crosswind| at gust speed, if known
+  windTowardDeg: number;     // wind vector direction (FROM+180)
+};
+
+export type RecommendOptions = {
+  resolutionDeg?: number;        // grid resolution; default 5°
+  crosswindPenalty?: number;     // weight on crosswind; default 0.4
+  allowedHeadings?: Array<[number, number]>; // constrain search to intervals [start,end] (deg)
+  minSeparationDeg?: number;     // min spacing between returned headings; default 15°
+  topK?: number;                  // how many top headings to return; default 3
+  gustSpeed?: number | null;      // gust speed, same units as windSpeed
+  gustWeight?: number;            // 0 = ignore gusts, 1 = penalise gust crosswind only; default 0.5
+};
+
+function inIntervals(x: number, ranges?: Array<[number, number]>) {
+  if (!ranges || !ranges.length) return true;
+  const d = clampDeg(x);
+  return ranges.some(([a, b]) => {
+    const A = clampDeg(a);
+    const B = clampDeg(b);
+    if (A <= B) return d >= A && d <= B;
+    // wrapped interval (e.g., 300..30)
+    return d >= A || d <= B;
+  });
+}
+
+export function scoreHeading(
+  windFromDeg: number,
+  windSpeed: number,
+  headingDeg: number,
+  crosswindPenalty = 0.4,
+  gustSpeed: number | null = null,
+  gustWeight = 0.5
+) {
+  // Convert meteorological wind (FROM) to vector direction (TOWARD)
+  const windTowardDeg = clampDeg(windFromDeg + 180);
+  const delta = angleDiff(headingDeg, windTowardDeg); // heading vs wind vector
+  const tail = windSpeed * Math.cos(toRad(delta));
+  const cross = Math.abs(windSpeed * Math.sin(toRad(delta)));
+  const gustCross = gustSpeed != null && Number.isFinite(gustSpeed)
+    ? Math.abs(gustSpeed * Math.sin(toRad(delta)))
+    : null;
+  // Blend mean and gust crosswind for the penalty
+  const penalisedCross = gustCross == null ? cross : cross + gustWeight * (gustCross - cross);
+  const score = tail - crosswindPenalty * penalisedCross;
+  return { score, tailComponent: tail, crossComponent: cross, gustCrossComponent: gustCross, windTowardDeg };
+}
+
+export function recommendHeadings(
+  windFromDeg: number,
+  windSpeed: number,
+  opts: RecommendOptions = {}
+): Recommendation[] {
+  const {
+    resolutionDeg = 5,
+    crosswindPenalty = 0.4,
+    allowedHeadings,
+    minSeparationDeg = 15,
+    topK = 3,
+    gustSpeed = null,
+    gustWeight = 0.5,
+  } = opts;
+
+  const candidates: Recommendation[] = [];
+  for (let h = 0; h < 360; h += resolutionDeg) {
+    if (!inIntervals(h, allowedHeadings)) continue;
+    const { score, tailComponent, crossComponent, gustCrossComponent, windTowardDeg } = scoreHeading(
+      windFromDeg,
+      windSpeed,
+      h,
+      crosswindPenalty,
+      gustSpeed,
+      gustWeight
+    );
+    candidates.push({
+      headingDeg: h,
+      headingLabel: bearingToCompass(h),
+      score,
+      tailComponent,
+      crossComponent,
+      gustCrossComponent,
+      windTowardDeg,
+    });
+  }
+
+  // Sort by score descending
+  candidates.sort((a, b) => b.score - a.score);
+
+  // Deduplicate near-duplicates to ensure varied bearings
+  const picked: Recommendation[] = [];
+  for (const c of candidates) {
+    if (picked.length >= topK) break;
+    const tooClose = picked.some(p => Math.abs(angleDiff(p.headingDeg, c.headingDeg)) < minSeparationDeg);
+    if (!tooClose) picked.push(c);
+  }
+  return picked;
+}
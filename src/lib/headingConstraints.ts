@@ -0,0 +1,85 @@
+// src/lib/headingConstraints.ts
+// Rideable headings from a location (favourite road bearings or an imported
+// route) turned into `allowedHeadings` intervals for recommendHeadings.
+import { bearingToCompass } from './heading';
+import { routeSegments } from './gpx';
+import type { RoutePoint } from './gpx';
+
+export type HeadingConstraint = {
+  headings: number[];     // degrees, 0 = north
+  toleranceDeg: number;   // ± around each heading
+  bidirectional: boolean; // roads can be ridden both ways
+};
+
+export const EMPTY_CONSTRAINT: HeadingConstraint = { headings: [], toleranceDeg: 15, bidirectional: true };
+export const HEADINGS_STORAGE_KEY = 'tpc.headings';
+/** Storage key used while the location comes from the device (geolocation). */
+export const DEVICE_LOCATION_KEY = 'device';
+
+const norm = (deg: number) => ((deg % 360) + 360) % 360;
+
+/** Parse "270", "270°" or a 16-point compass label like "NE". */
+export function parseHeading(text: string): number | null {
+  const t = text.trim().toUpperCase().replace(/°$/, '');
+  if (t === '') return null;
+  const n = Number(t);
+  if (Number.isFinite(n)) return norm(n);
+  for (let i = 0; i < 16; i++) {
+    if (bearingToCompass(i * 22.5) === t) return i * 22.5;
+  }
+  return null;
+}
+
+/** Intervals for `RecommendOptions.allowedHeadings`; undefined when unconstrained. */
+export function constraintToIntervals(c: HeadingConstraint): Array<[number, number]> | undefined {
+  if (!c.headings.length) return undefined;
+  const all = c.bidirectional ? c.headings.flatMap(h => [h, norm(h + 180)]) : c.headings;
+  return all.map(h => [norm(h - c.toleranceDeg), norm(h + c.toleranceDeg)]);
+}
+
+/**
+ * Dominant bearings of a route: segment bearings binned by `binDeg`, weighted
+ * by distance; bins carrying at least `minShare` of the route are returned
+ * (bin centres, most-ridden first, at most `max`).
+ */
+export function routeHeadings(points: readonly RoutePoint[], { binDeg = 10, minShare = 0.08, max = 6 } = {}): number[] {
+  const bins = new Map<number, number>();
+  let total = 0;
+  for (const s of routeSegments(points)) {
+    const bin = Math.floor(norm(s.bearingDeg) / binDeg) % Math.round(360 / binDeg);
+    bins.set(bin, (bins.get(bin) ?? 0) + s.distanceM);
+    total += s.distanceM;
+  }
+  if (!total) return [];
+  return [...bins.entries()]
+    .filter(([, d]) => d / total >= minShare)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, max)
+    .map(([bin]) => norm(bin * binDeg + binDeg / 2));
+}
+
+function loadAll(): Record<string, HeadingConstraint> {
+  try {
+    const raw = JSON.parse(localStorage.getItem(HEADINGS_STORAGE_KEY) ?? '{}');
+    return typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? raw : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadHeadingConstraint(locationKey: string): HeadingConstraint {
+  const c = loadAll()[locationKey];
+  if (!c || !Array.isArray(c.headings)) return EMPTY_CONSTRAINT;
+  return {
+    headings: c.headings.filter((h): h is number => typeof h === 'number' && Number.isFinite(h)).map(norm),
+    toleranceDeg: typeof c.toleranceDeg === 'number' ? c.toleranceDeg : EMPTY_CONSTRAINT.toleranceDeg,
+    bidirectional: typeof c.bidirectional === 'boolean' ? c.bidirectional : EMPTY_CONSTRAINT.bidirectional,
+  };
+}
+
+export function saveHeadingConstraint(locationKey: string, c: HeadingConstraint) {
+  const all = loadAll();
+  if (c.headings.length) all[locationKey] = c;
+  else delete all[locationKey];
+  localStorage.setItem(HEADINGS_STORAGE_KEY, JSON.stringify(all));
+}
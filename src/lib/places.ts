@@ -0,0 +1,35 @@
+// src/lib/places.ts
+// Manually entered locations: lat/lon parsing and saved named places (localStorage).
+import type { LatLng } from './weather';
+
+export type Place = LatLng & { name: string };
+
+export const PLACES_STORAGE_KEY = 'tpc.places';
+
+export const isValidLatLng = ({ lat, lon }: LatLng) =>
+  Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+
+/** Parse "39.77, -86.16" (comma or whitespace separated). Returns null if not valid coordinates. */
+export function parseLatLng(text: string): LatLng | null {
+  const parts = text.trim().split(/[\s,;]+/).filter(Boolean);
+  if (parts.length !== 2) return null;
+  const coords = { lat: Number(parts[0]), lon: Number(parts[1]) };
+  return isValidLatLng(coords) ? coords : null;
+}
+
+export const formatLatLng = ({ lat, lon }: LatLng) => `${lat.toFixed(4)}, ${lon.toFixed(4)}`;
+
+export function loadPlaces(): Place[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(PLACES_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw.filter((p): p is Place =>
+      typeof p?.name === 'string' && typeof p.lat === 'number' && typeof p.lon === 'number' && isValidLatLng(p));
+  } catch {
+    return [];
+  }
+}
+
+export function savePlaces(places: Place[]) {
+  localStorage.setItem(PLACES_STORAGE_KEY, JSON.stringify(places));
+}
@@ -0,0 +1,126 @@
+// src/lib/profiles.ts
+// Named bike/rider profiles persisted in localStorage, with JSON import/export.
+import { CARGO_PLACEMENTS, FRONT_PCT_RANGE, TIRE_TYPES, WHEEL_DIAMETERS } from '../constants';
+import type { CargoItem, TireType, WheelDiameter } from '../constants';
+import { sanitizeCoefficientOverrides } from './coefficients';
+import type { CoefficientOverrides } from './coefficients';
+import { parseRimSetup, parseTireLimits } from './wheelLimits';
+import type { RimSetup, TireLimits } from './wheelLimits';
+
+export type TireSetup = {
+  tireWidthMm: number;
+  wheelDiameter: WheelDiameter;
+  tireType: TireType;
+};
+
+/** The inputs a profile captures (ride conditions like surface/speed are not part of a bike). */
+export type ProfileSettings = {
+  unitWeight: 'lbs' | 'kg';
+  riderWeight: number;
+  bikeWeight: number;
+  cargo: CargoItem[];
+  frontPct: number;
+  sameTires: boolean;
+  front: TireSetup;
+  rear: TireSetup;
+  coefficients: CoefficientOverrides;
+  rim: RimSetup;
+  tireLimits: { front: TireLimits; rear: TireLimits };
+};
+
+export type Profile = {
+  id: string;
+  name: string;
+  settings: ProfileSettings;
+};
+
+export const PROFILES_STORAGE_KEY = 'tpc.profiles';
+export const ACTIVE_PROFILE_STORAGE_KEY = 'tpc.activeProfile';
+const EXPORT_VERSION = 1;
+
+export function newProfileId() {
+  return `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isOneOf = <T extends string>(list: readonly T[], v: unknown): v is T => list.includes(v as T);
+
+function parseTireSetup(raw: unknown): TireSetup | null {
+  if (!isObj(raw)) return null;
+  const { tireWidthMm, wheelDiameter, tireType } = raw;
+  if (!isNum(tireWidthMm) || !isOneOf(WHEEL_DIAMETERS, wheelDiameter) || !isOneOf(TIRE_TYPES, tireType)) return null;
+  return { tireWidthMm, wheelDiameter, tireType };
+}
+
+function parseCargoList(raw: unknown): CargoItem[] | null {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) return null;
+  const items = raw.filter((c): c is CargoItem => isObj(c) && isOneOf(CARGO_PLACEMENTS, c.placement) && isNum(c.weight) && c.weight >= 0);
+  return items.length === raw.length ? items : null;
+}
+
+/** Validate untrusted settings (localStorage or an imported file). Returns null if unusable. */
+export function parseProfileSettings(raw: unknown): ProfileSettings | null {
+  if (!isObj(raw)) return null;
+  const { unitWeight, frontPct, sameTires } = raw;
+  // Profiles saved before the weight breakdown only had a total
+  const riderWeight = raw.riderWeight ?? raw.systemWeight;
+  const bikeWeight = raw.bikeWeight ?? 0;
+  const cargo = parseCargoList(raw.cargo);
+  const front = parseTireSetup(raw.front);
+  const rear = parseTireSetup(raw.rear);
+  if (unitWeight !== 'lbs' && unitWeight !== 'kg') return null;
+  if (!isNum(riderWeight) || riderWeight <= 0 || !isNum(bikeWeight) || bikeWeight < 0 || !cargo) return null;
+  if (!isNum(frontPct) || frontPct < FRONT_PCT_RANGE.min || frontPct > FRONT_PCT_RANGE.max) return null;
+  if (typeof sameTires !== 'boolean' || !front || !rear) return null;
+  // Rim and tire limits were added later; older profiles get the defaults
+  const limits = isObj(raw.tireLimits) ? raw.tireLimits : {};
+  return {
+    unitWeight, riderWeight, bikeWeight, cargo, frontPct, sameTires, front, rear,
+    coefficients: sanitizeCoefficientOverrides(raw.coefficients),
+    rim: parseRimSetup(raw.rim),
+    tireLimits: { front: parseTireLimits(limits.front), rear: parseTireLimits(limits.rear) },
+  };
+}
+
+function parseProfile(raw: unknown): Profile | null {
+  if (!isObj(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') return null;
+  const settings = parseProfileSettings(raw.settings);
+  return settings ? { id: raw.id, name: raw.name, settings } : null;
+}
+
+export function loadProfiles(): Profile[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) ?? '[]');
+    return Array.isArray(raw) ? raw.map(parseProfile).filter((p): p is Profile => p !== null) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveProfiles(profiles: Profile[]) {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function exportProfilesJson(profiles: Profile[]) {
+  return JSON.stringify({ version: EXPORT_VERSION, profiles }, null, 2);
+}
+
+/**
+ * Parse an exported profiles file. Throws with a readable message when the
+ * file isn't a profiles export; individual invalid entries are skipped.
+ */
+export function parseProfilesJson(text: string): Profile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  const list = isObj(data) && Array.isArray(data.profiles) ? data.profiles : Array.isArray(data) ? data : null;
+  if (!list) throw new Error('No profiles found in file');
+  const profiles = list.map(parseProfile).filter((p): p is Profile => p !== null);
+  if (!profiles.length) throw new Error('No valid profiles found in file');
+  return profiles;
+}
@@ -0,0 +1,117 @@
+// src/lib/rimSafety.ts
+// Crosswind/gust exposure against per-rim-depth handling thresholds (front wheel).
+import { windComponents } from '../hooks/useWind';
+import { convertWindSpeed } from './weather';
+import type { WindUnit } from './weather';
+
+/** Crosswind (km/h) at which a front rim of `depthMm` starts to need care, and beyond which it's unwise. */
+export type RimWindThreshold = { depthMm: number; cautionKmh: number; limitKmh: number };
+
+export const DEFAULT_RIM_THRESHOLDS: RimWindThreshold[] = [
+  { depthMm: 30, cautionKmh: 40, limitKmh: 55 },
+  { depthMm: 45, cautionKmh: 32, limitKmh: 45 },
+  { depthMm: 60, cautionKmh: 26, limitKmh: 38 },
+  { depthMm: 80, cautionKmh: 20, limitKmh: 30 },
+];
+
+export const RIM_DEPTH_RANGE = { min: 0, max: 120 };
+export const RIM_THRESHOLDS_STORAGE_KEY = 'tpc.rimThresholds';
+
+export type RimSafetyLevel = 'ok' | 'caution' | 'warning';
+
+export type RimSafety = {
+  level: RimSafetyLevel;
+  /** Steady and gust crosswind on the course (or full wind speed if no course); in `unit`. */
+  crosswind: number;
+  gustCrosswind: number | null;
+  /** Thresholds interpolated for this depth; in `unit`. */
+  caution: number;
+  limit: number;
+  /** Deepest front rim (from the table) that stays under caution, null if none does. */
+  suggestedDepthMm: number | null;
+  /** True when no course was given and the worst-case (full crosswind) was assumed. */
+  worstCase: boolean;
+};
+
+export function isValidThreshold(t: RimWindThreshold) {
+  return Number.isFinite(t.depthMm) && t.depthMm >= RIM_DEPTH_RANGE.min && t.depthMm <= RIM_DEPTH_RANGE.max
+    && Number.isFinite(t.cautionKmh) && Number.isFinite(t.limitKmh)
+    && t.cautionKmh > 0 && t.limitKmh >= t.cautionKmh;
+}
+
+const byDepth = (a: RimWindThreshold, b: RimWindThreshold) => a.depthMm - b.depthMm;
+
+/** Rims shallower than the shallowest row (including the default 0, i.e. not set) are box-section: nothing to assess. */
+export function isDeepRim(depthMm: number, table: RimWindThreshold[]) {
+  return table.length > 0 && depthMm >= Math.min(...table.map(r => r.depthMm));
+}
+
+/** Thresholds for a depth: linear between table rows, held flat beyond either end. */
+export function thresholdsForDepth(depthMm: number, table: RimWindThreshold[]): { cautionKmh: number; limitKmh: number } {
+  const rows = [...table].sort(byDepth);
+  if (!rows.length) return { cautionKmh: Infinity, limitKmh: Infinity };
+  if (depthMm <= rows[0].depthMm) return rows[0];
+  for (let i = 1; i < rows.length; i++) {
+    const a = rows[i - 1], b = rows[i];
+    if (depthMm <= b.depthMm) {
+      const f = (depthMm - a.depthMm) / (b.depthMm - a.depthMm || 1);
+      return {
+        cautionKmh: a.cautionKmh + f * (b.cautionKmh - a.cautionKmh),
+        limitKmh: a.limitKmh + f * (b.limitKmh - a.limitKmh),
+      };
+    }
+  }
+  return rows[rows.length - 1];
+}
+
+/**
+ * Assess front-wheel handling for the given wind. Speeds are in `unit`; thresholds
+ * are stored in km/h and converted. Without a course, assume the wind can hit square-on.
+ */
+export function assessRimSafety({
+  depthMm, windFromDeg, speed, gust, headingDeg, unit, thresholds = DEFAULT_RIM_THRESHOLDS,
+}: {
+  depthMm: number;
+  windFromDeg: number;
+  speed: number;
+  gust?: number | null;
+  headingDeg?: number | null;
+  unit: WindUnit;
+  thresholds?: RimWindThreshold[];
+}): RimSafety {
+  const worstCase = headingDeg == null;
+  const cross = (v: number) => worstCase ? v : windComponents(windFromDeg, headingDeg, v).crosswind;
+
+  const crosswind = cross(speed);
+  const gustCrosswind = gust == null ? null : cross(gust);
+  const exposure = Math.max(crosswind, gustCrosswind ?? 0);
+
+  const t = thresholdsForDepth(depthMm, thresholds);
+  const caution = convertWindSpeed(t.cautionKmh, unit);
+  const limit = convertWindSpeed(t.limitKmh, unit);
+  const level: RimSafetyLevel = exposure >= limit ? 'warning' : exposure >= caution ? 'caution' : 'ok';
+
+  const comfortable = [...thresholds].sort(byDepth)
+    .filter(r => exposure < convertWindSpeed(r.cautionKmh, unit));
+  const suggestedDepthMm = comfortable.length ? comfortable[comfortable.length - 1].depthMm : null;
+
+  return { level, crosswind, gustCrosswind, caution, limit, suggestedDepthMm, worstCase };
+}
+
+export function loadRimThresholds(): RimWindThreshold[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(RIM_THRESHOLDS_STORAGE_KEY) ?? 'null');
+    if (!Array.isArray(raw)) return DEFAULT_RIM_THRESHOLDS;
+    const rows = raw
+      .map(r => ({ depthMm: Number(r?.depthMm), cautionKmh: Number(r?.cautionKmh), limitKmh: Number(r?.limitKmh) }))
+      .filter(isValidThreshold);
+    return rows.length ? rows.sort(byDepth) : DEFAULT_RIM_THRESHOLDS;
+  } catch {
+    return DEFAULT_RIM_THRESHOLDS;
+  }
+}
+
+export function saveRimThresholds(rows: RimWindThreshold[]) {
+  if (rows === DEFAULT_RIM_THRESHOLDS) localStorage.removeItem(RIM_THRESHOLDS_STORAGE_KEY);
+  else localStorage.setItem(RIM_THRESHOLDS_STORAGE_KEY, JSON.stringify(rows));
+}
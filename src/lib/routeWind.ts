@@ -0,0 +1,209 @@
+// src/lib/routeWind.ts
+// Per-segment wind along a route, using the forecast hour the rider reaches each segment.
+import { scoreHeading } from './heading';
+import { windComponents } from '../hooks/useWind';
+import { haversineM, routeDistanceM, routeSegments } from './gpx';
+import type { RoutePoint, RouteSegment } from './gpx';
+import { nearestHourIndex } from './weather';
+import type { HourlyWeather } from './weather';
+
+export type WindKind = 'headwind' | 'tailwind' | 'crosswind';
+
+export type SegmentWind = RouteSegment & {
+  eta: Date;
+  windSpeedKmh: number;
+  windFromDeg: number;
+  headwindKmh: number;   // signed: + into the rider, − from behind
+  crosswindKmh: number;
+  side: 'left' | 'right';
+  kind: WindKind;        // whichever component dominates
+  score: number;         // scoreHeading: tailwind − penalty × crosswind
+};
+
+export type CrosswindStretch = {
+  startKm: number;
+  endKm: number;
+  peakCrosswindKmh: number;
+  side: 'left' | 'right';
+};
+
+export type RouteWindSummary = {
+  segments: SegmentWind[];
+  totalKm: number;
+  distanceKm: Record<WindKind, number>;
+  worstCrosswinds: CrosswindStretch[];
+};
+
+/**
+ * Crosswind stretches are consecutive crosswind-dominated segments whose
+ * crosswind reaches at least this (km/h); the worst few are reported.
+ */
+export const CROSSWIND_STRETCH_MIN_KMH = 10;
+const WORST_STRETCHES = 3;
+
+/** Wind on each segment at the time the rider gets there, at a constant average speed. */
+export function segmentWinds(params: {
+  segments: readonly RouteSegment[];
+  hourly: HourlyWeather;
+  start: Date;
+  avgSpeedKmh: number;
+}): SegmentWind[] {
+  const { segments, hourly, start, avgSpeedKmh } = params;
+  if (!hourly.time.length) throw new Error('No weather data returned');
+  const msPerM = 3600 / avgSpeedKmh; // 1000 m/km × 3600 s/h / 1000 ms/s
+
+  return segments.map(seg => {
+    const eta = new Date(start.getTime() + (seg.startDistanceM + seg.distanceM / 2) * msPerM);
+    const i = nearestHourIndex(hourly.time, eta);
+    const windSpeedKmh = hourly.windSpeedKmh[i];
+    const windFromDeg = hourly.windDirectionDeg[i];
+    const c = windComponents(windFromDeg, seg.bearingDeg, windSpeedKmh);
+    const headwindKmh = c.headOrTail === 'headwind' ? c.headwind : -c.headwind;
+    const kind: WindKind = c.crosswind > c.headwind ? 'crosswind' : (c.headOrTail as WindKind);
+    return {
+      ...seg,
+      eta,
+      windSpeedKmh,
+      windFromDeg,
+      headwindKmh,
+      crosswindKmh: c.crosswind,
+      side: c.side as 'left' | 'right',
+      kind,
+      score: scoreHeading(windFromDeg, windSpeedKmh, seg.bearingDeg).score,
+    };
+  });
+}
+
+/** Headwind / tailwind / crosswind distance and the worst crosswind stretches. */
+export function summarizeRouteWind(segments: SegmentWind[]): RouteWindSummary {
+  const distanceKm: Record<WindKind, number> = { headwind: 0, tailwind: 0, crosswind: 0 };
+  for (const s of segments) distanceKm[s.kind] += s.distanceM / 1000;
+
+  const stretches: CrosswindStretch[] = [];
+  let open: CrosswindStretch | null = null;
+  for (const s of segments) {
+    const windy = s.kind === 'crosswind' && s.crosswindKmh >= CROSSWIND_STRETCH_MIN_KMH;
+    if (!windy) {
+      open = null;
+      continue;
+    }
+    const startKm = s.startDistanceM / 1000;
+    const endKm = (s.startDistanceM + s.distanceM) / 1000;
+    if (open) {
+      open.endKm = endKm;
+      if (s.crosswindKmh > open.peakCrosswindKmh) {
+        open.peakCrosswindKmh = s.crosswindKmh;
+        open.side = s.side;
+      }
+    } else {
+      open = { startKm, endKm, peakCrosswindKmh: s.crosswindKmh, side: s.side };
+      stretches.push(open);
+    }
+  }
+  stretches.sort((a, b) => b.peakCrosswindKmh - a.peakCrosswindKmh || (b.endKm - b.startKm) - (a.endKm - a.startKm));
+
+  return {
+    segments,
+    totalKm: segments.reduce((a, s) => a + s.distanceM, 0) / 1000,
+    distanceKm,
+    worstCrosswinds: stretches.slice(0, WORST_STRETCHES),
+  };
+}
+
+/* Loop direction */
+export type LoopDirection = 'forward' | 'reverse';
+
+export type LoopOption = {
+  direction: LoopDirection;
+  clockwise: boolean;
+  start: Date;
+  overallTailKmh: number;  // distance-weighted mean tailwind component (− = headwind)
+  finalTailKmh: number;    // same, over the final part of the ride
+  avgCrosswindKmh: number;
+  score: number;
+};
+
+/**
+ * Loop scoring: the final part of the ride is where a tailwind matters most
+ * (tired legs), so it carries most of the weight; crosswind is penalised.
+ */
+export const LOOP_SCORING = {
+  finalFraction: 1 / 3,   // share of the distance counted as "the final part"
+  finalWeight: 0.6,
+  overallWeight: 0.4,
+  crosswindPenalty: 0.2,
+  startOffsetsH: [0, 1, 2, 3, 4],
+} as const;
+
+/** Signed-area test on a locally flattened polygon; true when the loop runs clockwise on a map. */
+export function isClockwise(points: readonly { lat: number; lon: number }[]) {
+  const cosLat = Math.cos((points[0]?.lat ?? 0) * Math.PI / 180);
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i], b = points[(i + 1) % points.length];
+    area += (a.lon * cosLat) * b.lat - (b.lon * cosLat) * a.lat;
+  }
+  return area < 0;
+}
+
+function tailStats(winds: readonly SegmentWind[], fromM: number) {
+  let dist = 0, tail = 0, cross = 0;
+  for (const s of winds) {
+    const end = s.startDistanceM + s.distanceM;
+    if (end <= fromM) continue;
+    const d = end - Math.max(s.startDistanceM, fromM);
+    dist += d;
+    tail += -s.headwindKmh * d;
+    cross += s.crosswindKmh * d;
+  }
+  return dist > 0 ? { tail: tail / dist, cross: cross / dist } : { tail: 0, cross: 0 };
+}
+
+/**
+ * Score riding a loop both ways at several start times (offsets from `start`),
+ * best first. Each option is timed along the route with the hourly forecast.
+ */
+export function evaluateLoopOptions(params: {
+  points: readonly RoutePoint[];
+  hourly: HourlyWeather;
+  start: Date;
+  avgSpeedKmh: number;
+  startOffsetsH?: readonly number[];
+}): LoopOption[] {
+  const { points, hourly, start, avgSpeedKmh, startOffsetsH = LOOP_SCORING.startOffsetsH } = params;
+  const forwardClockwise = isClockwise(points);
+  const directions: { direction: LoopDirection; segments: RouteSegment[]; clockwise: boolean }[] = [
+    { direction: 'forward', segments: routeSegments(points), clockwise: forwardClockwise },
+    { direction: 'reverse', segments: routeSegments([...points].reverse()), clockwise: !forwardClockwise },
+  ];
+
+  const options: LoopOption[] = [];
+  for (const { direction, segments, clockwise } of directions) {
+    const totalM = segments.reduce((a, s) => a + s.distanceM, 0);
+    for (const offsetH of startOffsetsH) {
+      const optionStart = new Date(start.getTime() + offsetH * 3600 * 1000);
+      const winds = segmentWinds({ segments, hourly, start: optionStart, avgSpeedKmh });
+      const overall = tailStats(winds, 0);
+      const final = tailStats(winds, totalM * (1 - LOOP_SCORING.finalFraction));
+      options.push({
+        direction,
+        clockwise,
+        start: optionStart,
+        overallTailKmh: overall.tail,
+        finalTailKmh: final.tail,
+        avgCrosswindKmh: overall.cross,
+        score: LOOP_SCORING.finalWeight * final.tail
+          + LOOP_SCORING.overallWeight * overall.tail
+          - LOOP_SCORING.crosswindPenalty * overall.cross,
+      });
+    }
+  }
+  return options.sort((a, b) => b.score - a.score);
+}
+
+/** True when the route ends close to where it starts (within 5% of its length, at least 500 m). */
+export function isLoop(points: readonly RoutePoint[]) {
+  if (points.length < 3) return false;
+  const totalM = routeDistanceM(points);
+  return haversineM(points[0], points[points.length - 1]) <= Math.max(500, totalM * 0.05);
+}
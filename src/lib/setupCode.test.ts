@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { decodeSetupCode, encodeSetupCode } from './setupCode'
+import { normalizeUrlState, readUrlState } from './urlState'
+import type { UrlState } from './urlState'
+
+const DEFAULTS = readUrlState('')
+
+const roundTrip = (state: UrlState) => decodeSetupCode(encodeSetupCode(state))
+
+describe('setup codes', () => {
+  it('round-trips the defaults', () => {
+    expect(roundTrip(DEFAULTS)).toEqual(DEFAULTS)
+  })
+
+  it('round-trips a full setup', () => {
+    const state: UrlState = {
+      ...DEFAULTS,
+      uw: 'kg', rw: 72.5, bw: 8.2, cargo: [{ placement: 'frame', weight: 2.5 }],
+      width: 32, same: false, rwidth: 35, rimt: 'hookless', rimw: 25, tmax: 72.5,
+      lat: 46.5197, lon: 6.6323, place: 'Lausanne', t: new Date('2026-06-01T07:30:00Z'),
+      dur: 4.5, kmh: 28, hdg: 359.96, rim: 50, alt0: 372, alt1: 1486, indoor: 18,
+    }
+    expect(roundTrip(state)).toEqual({ ...normalizeUrlState(state), hdg: 0 })
+  })
+
+  it('shares out-of-range inputs as the link would read them', () => {
+    const state: UrlState = { ...DEFAULTS, width: 100, kmh: 64.4, place: 'x'.repeat(150) }
+    const decoded = roundTrip(state)
+    expect(decoded).toEqual(normalizeUrlState(state))
+    expect(decoded.width).toBe(90)
+    expect(decoded.kmh).toBe(60)
+    expect(decoded.place).toHaveLength(120)
+  })
+})
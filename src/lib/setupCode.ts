@@ -0,0 +1,285 @@
+// src/lib/setupCode.ts
+// Short setup codes: the whole shareable state packed into bytes (options as indices,
+// numbers as varints) with a version and a checksum, in URL-safe base64.
+import { CARGO_PLACEMENTS, PRESETS, RIM_TYPES, SPEEDS, SURFACES, TIRE_TYPES, WHEEL_DIAMETERS } from '../constants';
+import type { CargoItem } from '../constants';
+import { parseCoefficientOverrides, serializeCoefficientOverrides } from './coefficients';
+import type { CoefficientOverrides } from './coefficients';
+import { CONDITION_MODES } from './conditions';
+import { BRAKE_TYPES, BRAKING_LEVELS, SUN_EXPOSURES } from './tireHeating';
+import { WEIGHT_UNITS } from './units';
+import { isValidUrlValue, normalizeUrlState, readUrlState } from './urlState';
+import type { UrlKey, UrlState } from './urlState';
+
+/**
+ * Bump whenever a codec below changes or a field is added, so old codes are
+ * rejected instead of decoding into the wrong fields.
+ */
+export const SETUP_CODE_VERSION = 1;
+export const SETUP_CODE_PARAM = 's';
+
+type Reader = { bytes: Uint8Array; pos: number };
+type Codec<T> = { write: (out: number[], value: T) => void; read: (r: Reader) => T };
+
+function readByte(r: Reader): number {
+  if (r.pos >= r.bytes.length) throw new Error('Setup code is incomplete');
+  return r.bytes[r.pos++];
+}
+
+// Unsigned LEB128; arithmetic rather than bit operations so values past 2^31 survive
+function writeUint(out: number[], n: number) {
+  do {
+    const low = n % 128;
+    n = Math.floor(n / 128);
+    out.push(n > 0 ? low + 128 : low);
+  } while (n > 0);
+}
+
+function readUint(r: Reader): number {
+  let n = 0;
+  for (let scale = 1; scale < 2 ** 49; scale *= 128) {
+    const b = readByte(r);
+    n += (b % 128) * scale;
+    if (b < 128) return n;
+  }
+  throw new Error('Setup code has an oversized number');
+}
+
+const oneOf = <T extends string>(options: readonly T[]): Codec<T> => ({
+  write: (out, value) => writeUint(out, options.indexOf(value)),
+  read: (r) => {
+    const i = readUint(r);
+    if (i >= options.length) throw new Error('Setup code has an unknown option');
+    return options[i];
+  },
+});
+
+/** Signed, to a fixed number of decimals (zigzag so small negatives stay one byte). */
+const number = (decimals = 1): Codec<number> => {
+  const scale = 10 ** decimals;
+  return {
+    write: (out, value) => {
+      const n = Math.round(value * scale);
+      writeUint(out, n >= 0 ? n * 2 : -n * 2 - 1);
+    },
+    read: (r) => {
+      const z = readUint(r);
+      return (z % 2 === 0 ? z / 2 : -(z + 1) / 2) / scale;
+    },
+  };
+};
+
+const optional = <T>(codec: Codec<T>): Codec<T | null> => ({
+  write: (out, value) => {
+    out.push(value === null ? 0 : 1);
+    if (value !== null) codec.write(out, value);
+  },
+  read: (r) => {
+    const present = readByte(r);
+    if (present > 1) throw new Error('Setup code is malformed');
+    return present ? codec.read(r) : null;
+  },
+});
+
+const flag: Codec<boolean> = {
+  write: (out, on) => out.push(on ? 1 : 0),
+  read: (r) => {
+    const b = readByte(r);
+    if (b > 1) throw new Error('Setup code is malformed');
+    return b === 1;
+  },
+};
+
+const text: Codec<string> = {
+  write: (out, value) => {
+    const bytes = new TextEncoder().encode(value);
+    writeUint(out, bytes.length);
+    out.push(...bytes);
+  },
+  read: (r) => {
+    const length = readUint(r);
+    if (r.pos + length > r.bytes.length) throw new Error('Setup code is incomplete');
+    const bytes = r.bytes.subarray(r.pos, r.pos + length);
+    r.pos += length;
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      throw new Error('Setup code has unreadable text');
+    }
+  },
+};
+
+const placement = oneOf(CARGO_PLACEMENTS);
+const weight = number();
+
+const cargo: Codec<CargoItem[]> = {
+  write: (out, items) => {
+    writeUint(out, items.length);
+    for (const c of items) {
+      placement.write(out, c.placement);
+      weight.write(out, c.weight);
+    }
+  },
+  read: (r) => {
+    const count = readUint(r);
+    // Each item takes at least two bytes; a corrupt count must not allocate a huge array
+    if (count * 2 > r.bytes.length - r.pos) throw new Error('Setup code is incomplete');
+    return Array.from({ length: count }, () => ({ placement: placement.read(r), weight: weight.read(r) }));
+  },
+};
+
+// Already compact (table indices, not labels); validated with the rest below
+const coefficients: Codec<CoefficientOverrides> = {
+  write: (out, o) => text.write(out, serializeCoefficientOverrides(o)),
+  read: (r) => {
+    const raw = text.read(r);
+    const o = parseCoefficientOverrides(raw);
+    if (serializeCoefficientOverrides(o) !== raw) throw new Error('Setup code has invalid coefficients');
+    return o;
+  },
+};
+
+// A tenth of a degree, wrapped so 359.96° is written as 0 rather than an out-of-range 360
+const tenth = number();
+const heading: Codec<number> = {
+  write: (out, deg) => tenth.write(out, (Math.round(deg * 10) % 3600) / 10),
+  read: tenth.read,
+};
+
+// Ride start to the minute
+const date: Codec<Date> = {
+  write: (out, d) => writeUint(out, Math.floor(d.getTime() / 60000)),
+  read: (r) => new Date(readUint(r) * 60000),
+};
+
+/** Field order is part of the format: append new fields and bump SETUP_CODE_VERSION. */
+const CODECS: { [K in UrlKey]: Codec<UrlState[K]> } = {
+  theme: oneOf(['dark', 'light'] as const),
+  uw: optional(oneOf(WEIGHT_UNITS)),
+  rw: number(),
+  bw: number(),
+  cargo,
+  surface: oneOf(SURFACES),
+  width: number(),
+  wheel: oneOf(WHEEL_DIAMETERS),
+  tt: oneOf(TIRE_TYPES),
+  speed: oneOf(SPEEDS),
+  split: number(),
+  preset: optional(oneOf(PRESETS.map(p => p.name))),
+  same: flag,
+  rwidth: optional(number()),
+  rwheel: optional(oneOf(WHEEL_DIAMETERS)),
+  rtt: optional(oneOf(TIRE_TYPES)),
+  coef: coefficients,
+  fit: flag,
+  rimt: oneOf(RIM_TYPES),
+  rimw: optional(number()),
+  tmin: optional(number()),
+  tmax: optional(number()),
+  rtmin: optional(number()),
+  rtmax: optional(number()),
+  lat: optional(number(4)),
+  lon: optional(number(4)),
+  place: text,
+  t: optional(date),
+  dur: number(),
+  kmh: number(),
+  hdg: optional(heading),
+  wet: oneOf(CONDITION_MODES),
+  night: oneOf(CONDITION_MODES),
+  rim: number(),
+  alt0: optional(number(0)),
+  alt1: optional(number(0)),
+  abs: flag,
+  sun: oneOf(SUN_EXPOSURES),
+  brakes: oneOf(BRAKE_TYPES),
+  braking: oneOf(BRAKING_LEVELS),
+  drop: number(0),
+  ref: number(),
+  indoor: optional(number()),
+};
+
+const KEYS = Object.keys(CODECS) as UrlKey[];
+
+/** CRC-16/CCITT-FALSE; catches the typos and truncation a hand-copied or misscanned code picks up. */
+function crc16(bytes: ArrayLike<number>): number {
+  let crc = 0xffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc ^= bytes[i] << 8;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+}
+
+const toBase64Url = (bytes: number[]) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+function fromBase64Url(code: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]+$/.test(code)) throw new Error('Setup code has characters it can\'t contain');
+  const padded = code.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (code.length % 4)) % 4);
+  try {
+    return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+  } catch {
+    throw new Error('Setup code is malformed');
+  }
+}
+
+function writeField<K extends UrlKey>(out: number[], key: K, state: UrlState) {
+  CODECS[key].write(out, state[key]);
+}
+
+function readField<K extends UrlKey>(r: Reader, key: K, state: Partial<UrlState>) {
+  const value = CODECS[key].read(r);
+  if (!isValidUrlValue(key, value)) throw new Error(`Setup code has an out-of-range value (${key})`);
+  state[key] = value;
+}
+
+/** Encodes what a link would hold, so out-of-range inputs can't produce a code that fails to decode. */
+export function encodeSetupCode(state: UrlState): string {
+  const shared = normalizeUrlState(state);
+  const out: number[] = [];
+  writeUint(out, SETUP_CODE_VERSION);
+  for (const key of KEYS) writeField(out, key, shared);
+  const crc = crc16(out);
+  out.push(crc >> 8, crc & 0xff);
+  return toBase64Url(out);
+}
+
+/** Strict: throws on a wrong version, checksum, option or range rather than falling back to defaults. */
+export function decodeSetupCode(code: string): UrlState {
+  const bytes = fromBase64Url(code.trim());
+  if (bytes.length < 3) throw new Error('Setup code is too short');
+  const body = bytes.subarray(0, -2);
+  if (crc16(body) !== bytes[bytes.length - 2] * 256 + bytes[bytes.length - 1]) {
+    throw new Error('Setup code is damaged (checksum mismatch) — ask for it again');
+  }
+  const r: Reader = { bytes: body, pos: 0 };
+  const version = readUint(r);
+  if (version !== SETUP_CODE_VERSION) throw new Error(`Setup code is from a different app version (v${version})`);
+  const state: Partial<UrlState> = {};
+  for (const key of KEYS) readField(r, key, state);
+  if (r.pos !== body.length) throw new Error('Setup code has unexpected extra data');
+  return state as UrlState;
+}
+
+export function setupCodeLink(code: string, location: Pick<Location, 'origin' | 'pathname'> = window.location): string {
+  return `${location.origin}${location.pathname}?${SETUP_CODE_PARAM}=${code}`;
+}
+
+/** The shared setup: from a setup code when the link has one, otherwise from its parameters. */
+export function readSharedSetup(search = window.location.search): { state: UrlState; error: string | null } {
+  const code = new URLSearchParams(search).get(SETUP_CODE_PARAM);
+  if (!code) return { state: readUrlState(search), error: null };
+  try {
+    return { state: decodeSetupCode(code), error: null };
+  } catch (e) {
+    return { state: readUrlState(search), error: e instanceof Error ? e.message : 'Setup code could not be read' };
+  }
+}
+
+/** Drop a loaded setup code so the link goes back to tracking edits through its parameters. */
+export function clearSetupCodeParam() {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(SETUP_CODE_PARAM);
+  window.history.replaceState({}, '', url);
+}
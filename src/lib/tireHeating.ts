@@ -0,0 +1,34 @@
+// src/lib/tireHeating.ts
+// Rough tire-air temperature models: sun on the road surface, and rim-brake heat on descents.
+
+export const SUN_EXPOSURES = ['none', 'partial', 'full'] as const;
+export type SunExposure = typeof SUN_EXPOSURES[number];
+export const SUN_EXPOSURE_LABELS: Record<SunExposure, string> = {
+  none: 'Overcast / shade',
+  partial: 'Some sun',
+  full: 'Full sun on hot tarmac',
+};
+// Tire air above ambient while rolling on sun-heated tarmac (°C)
+export const SUN_OFFSET_C: Record<SunExposure, number> = { none: 0, partial: 3, full: 8 };
+
+export const BRAKE_TYPES = ['disc', 'rim'] as const;
+export type BrakeType = typeof BRAKE_TYPES[number];
+
+export const BRAKING_LEVELS = ['light', 'moderate', 'heavy'] as const;
+export type BrakingLevel = typeof BRAKING_LEVELS[number];
+// Share of the descent's height energy that ends up in the brakes
+export const BRAKING_FRACTION: Record<BrakingLevel, number> = { light: 0.3, moderate: 0.6, heavy: 0.9 };
+
+/**
+ * Rim-brake heating heuristic. Rims warm roughly with the height lost while braking
+ * until airflow cooling balances it; the tire air follows part of the rim rise.
+ * Disc brakes keep the heat in the rotor, so the tire sees none of it.
+ */
+export const RIM_HEAT = { perMetreC: 0.15, maxRimRiseC: 120, airShare: 0.6 };
+
+/** Tire air temperature rise (°C) from rim braking over a descent of `dropM` metres. */
+export function brakingHeatC(dropM: number, brakes: BrakeType, braking: BrakingLevel): number {
+  if (brakes !== 'rim' || !(dropM > 0)) return 0;
+  const rimRise = Math.min(RIM_HEAT.maxRimRiseC, RIM_HEAT.perMetreC * dropM * BRAKING_FRACTION[braking]);
+  return rimRise * RIM_HEAT.airShare;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_UNITS, roundToStep, unitFormat } from './units'
+
+describe('roundToStep', () => {
+  it('rounds to the nearest step by default, or in the direction asked', () => {
+    expect(roundToStep(4.4816, 0.05)).toBe(4.5)
+    expect(roundToStep(4.4816, 0.05, 'floor')).toBe(4.45)
+    expect(roundToStep(72.1, 1, 'ceil')).toBe(73)
+  })
+
+  it('keeps exact multiples where they are', () => {
+    expect(roundToStep(4.45, 0.05, 'floor')).toBe(4.45)
+    expect(roundToStep(4.45, 0.05, 'ceil')).toBe(4.45)
+  })
+})
+
+describe('unitFormat gauge', () => {
+  const psi = unitFormat(DEFAULT_UNITS)
+  const bar = unitFormat({ ...DEFAULT_UNITS, pressure: 'bar', pressureStep: 0.1 })
+
+  it('never rounds a limited pressure past its ceiling', () => {
+    expect(psi.gauge(72.5, { minPsi: 15, maxPsi: 72.5 })).toBe('72 psi')
+    expect(bar.gauge(65, { minPsi: 15, maxPsi: 65 })).toBe('4.4 bar')
+  })
+
+  it('never rounds a limited pressure below its floor', () => {
+    expect(psi.gaugeValue(40.4, { minPsi: 40.4, maxPsi: 130 })).toBe(41)
+  })
+
+  it('rounds to the nearest step inside the range', () => {
+    expect(psi.gauge(72.5)).toBe('73 psi')
+    expect(psi.gaugeValue(60.4, { minPsi: 15, maxPsi: 72.5 })).toBe(60)
+  })
+})
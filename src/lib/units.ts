@@ -0,0 +1,153 @@
+// src/lib/units.ts
+// Display unit preferences and formatting. Everything is computed in psi, °C,
+// metres and km/h; conversion happens only at the edges (inputs and output).
+import { PSI_PER_BAR } from '../constants';
+import { convertWindSpeed, WIND_UNITS } from './weather';
+import type { WindUnit } from './weather';
+
+export const PRESSURE_UNITS = ['psi', 'bar', 'kPa'] as const;
+export type PressureUnit = typeof PRESSURE_UNITS[number];
+export const TEMPERATURE_UNITS = ['C', 'F'] as const;
+export type TemperatureUnit = typeof TEMPERATURE_UNITS[number];
+export const WEIGHT_UNITS = ['lbs', 'kg'] as const;
+export type WeightUnit = typeof WEIGHT_UNITS[number];
+export const ELEVATION_UNITS = ['m', 'ft'] as const;
+export type ElevationUnit = typeof ELEVATION_UNITS[number];
+
+export type UnitPrefs = {
+  pressure: PressureUnit;
+  /** Gauge resolution, in the pressure unit (e.g. 0.5 psi, 0.05 bar). */
+  pressureStep: number;
+  temperature: TemperatureUnit;
+  weight: WeightUnit;
+  wind: WindUnit;
+  /** Also picks distances and route speeds: m → km, ft → miles. */
+  elevation: ElevationUnit;
+};
+
+/** Gauge steps offered per pressure unit; the first is the default. */
+export const PRESSURE_STEPS: Record<PressureUnit, number[]> = {
+  psi: [1, 0.5, 0.1],
+  bar: [0.05, 0.1, 0.01],
+  kPa: [5, 1, 10],
+};
+
+const PSI_PER: Record<PressureUnit, number> = { psi: 1, bar: PSI_PER_BAR, kPa: PSI_PER_BAR / 100 };
+const PRESSURE_DIGITS: Record<PressureUnit, number> = { psi: 1, bar: 2, kPa: 0 };
+const FT_PER_M = 3.28084;
+const MI_PER_KM = 0.621371;
+
+export const DEFAULT_UNITS: UnitPrefs = {
+  pressure: 'psi', pressureStep: 1, temperature: 'C', weight: 'lbs', wind: 'mph', elevation: 'm',
+};
+export const UNIT_SYSTEMS: { name: string; units: UnitPrefs }[] = [
+  { name: 'Metric', units: { pressure: 'bar', pressureStep: 0.05, temperature: 'C', weight: 'kg', wind: 'kmh', elevation: 'm' } },
+  { name: 'Imperial', units: { pressure: 'psi', pressureStep: 1, temperature: 'F', weight: 'lbs', wind: 'mph', elevation: 'ft' } },
+];
+
+export const UNITS_STORAGE_KEY = 'tpc.units';
+
+/* Conversions (canonical → display, and back for inputs) */
+export const fromPsi = (psi: number, unit: PressureUnit) => psi / PSI_PER[unit];
+export const toPsi = (value: number, unit: PressureUnit) => value * PSI_PER[unit];
+export const fromC = (c: number, unit: TemperatureUnit) => (unit === 'F' ? c * 9 / 5 + 32 : c);
+export const toC = (value: number, unit: TemperatureUnit) => (unit === 'F' ? (value - 32) * 5 / 9 : value);
+export const fromM = (m: number, unit: ElevationUnit) => (unit === 'ft' ? m * FT_PER_M : m);
+export const toM = (value: number, unit: ElevationUnit) => (unit === 'ft' ? value / FT_PER_M : value);
+
+export type StepRounding = 'nearest' | 'floor' | 'ceil';
+
+const ROUND: Record<StepRounding, (n: number) => number> = {
+  nearest: Math.round,
+  // Tolerate float noise so an exact multiple (4.45 / 0.05) isn't pushed a step away
+  floor: (n) => Math.floor(n + 1e-9),
+  ceil: (n) => Math.ceil(n - 1e-9),
+};
+
+/** Round to a multiple of `step` (nearest unless asked otherwise) without float noise (0.1 + 0.2 …). */
+export function roundToStep(value: number, step: number, mode: StepRounding = 'nearest') {
+  if (!(step > 0)) return value;
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)) + 1);
+  return Number((ROUND[mode](value / step) * step).toFixed(decimals));
+}
+
+/** The allowed range of a limited pressure (see LimitedPsi), in psi. */
+export type PsiRange = { minPsi: number; maxPsi: number };
+
+const stepDigits = (step: number) => Math.max(0, Math.ceil(-Math.log10(step) - 1e-9));
+const signed = (text: string, n: number) => (n >= 0 ? `+${text}` : text.replace('-', '−'));
+
+const PRESSURE_LABEL: Record<PressureUnit, string> = { psi: 'psi', bar: 'bar', kPa: 'kPa' };
+export const WIND_LABEL: Record<WindUnit, string> = { mph: 'mph', kmh: 'km/h', ms: 'm/s', kn: 'kn' };
+
+/** Formatters bound to a set of preferences. Inputs are always canonical units. */
+export function unitFormat(u: UnitPrefs) {
+  const distanceUnit = u.elevation === 'ft' ? 'mi' : 'km';
+  const speedUnit = u.elevation === 'ft' ? 'mph' : 'km/h';
+  const gaugeValue = (psi: number, range?: PsiRange | null) => {
+    const value = fromPsi(psi, u.pressure);
+    const rounded = roundToStep(value, u.pressureStep);
+    if (range && rounded > fromPsi(range.maxPsi, u.pressure)) return roundToStep(value, u.pressureStep, 'floor');
+    if (range && rounded < fromPsi(range.minPsi, u.pressure)) return roundToStep(value, u.pressureStep, 'ceil');
+    return rounded;
+  };
+  return {
+    pressureUnit: PRESSURE_LABEL[u.pressure],
+    temperatureUnit: `°${u.temperature}`,
+    elevationUnit: u.elevation,
+    distanceUnit,
+    speedUnit,
+    windUnit: WIND_LABEL[u.wind],
+
+    /**
+     * A pressure to set on the pump: rounded to the gauge step. With a `range`, a
+     * value rounded past a limit is rounded back inside it (down at a ceiling, up at a floor).
+     */
+    gaugeValue,
+    gaugeDigits: stepDigits(u.pressureStep),
+    gaugeNumber: (psi: number, range?: PsiRange | null) => gaugeValue(psi, range).toFixed(stepDigits(u.pressureStep)),
+    gauge: (psi: number, range?: PsiRange | null) => `${gaugeValue(psi, range).toFixed(stepDigits(u.pressureStep))} ${PRESSURE_LABEL[u.pressure]}`,
+    /** Any other pressure (ambient, deltas): fixed decimals per unit. */
+    pressureNumber: (psi: number, digits = PRESSURE_DIGITS[u.pressure]) => fromPsi(psi, u.pressure).toFixed(digits),
+    pressure: (psi: number, digits = PRESSURE_DIGITS[u.pressure]) => `${fromPsi(psi, u.pressure).toFixed(digits)} ${PRESSURE_LABEL[u.pressure]}`,
+    pressureDelta: (psi: number) => signed(`${fromPsi(psi, u.pressure).toFixed(PRESSURE_DIGITS[u.pressure])} ${PRESSURE_LABEL[u.pressure]}`, psi),
+    temperature: (c: number, digits = 0) => `${fromC(c, u.temperature).toFixed(digits)}°${u.temperature}`,
+    temperatureDelta: (dc: number) => `${(u.temperature === 'F' ? dc * 9 / 5 : dc).toFixed(0)}°${u.temperature}`,
+    elevation: (m: number) => `${Math.round(fromM(m, u.elevation))} ${u.elevation}`,
+    distance: (km: number, digits = 1) => `${(distanceUnit === 'mi' ? km * MI_PER_KM : km).toFixed(digits)} ${distanceUnit}`,
+    /** km/h ↔ the route speed unit, for inputs. */
+    fromKmh: (kmh: number) => (speedUnit === 'mph' ? kmh * MI_PER_KM : kmh),
+    toKmh: (v: number) => (speedUnit === 'mph' ? v / MI_PER_KM : v),
+    wind: (kmh: number, digits = 1) => `${convertWindSpeed(kmh, u.wind).toFixed(digits)} ${WIND_LABEL[u.wind]}`,
+  };
+}
+export type UnitFormat = ReturnType<typeof unitFormat>;
+
+const isOneOf = <T extends string>(list: readonly T[], v: unknown): v is T => list.includes(v as T);
+
+/** Validate stored preferences; unknown or missing fields fall back to the defaults. */
+export function parseUnitPrefs(raw: unknown): UnitPrefs {
+  const r = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const pressure = isOneOf(PRESSURE_UNITS, r.pressure) ? r.pressure : DEFAULT_UNITS.pressure;
+  const step = Number(r.pressureStep);
+  return {
+    pressure,
+    pressureStep: PRESSURE_STEPS[pressure].includes(step) ? step : PRESSURE_STEPS[pressure][0],
+    temperature: isOneOf(TEMPERATURE_UNITS, r.temperature) ? r.temperature : DEFAULT_UNITS.temperature,
+    weight: isOneOf(WEIGHT_UNITS, r.weight) ? r.weight : DEFAULT_UNITS.weight,
+    wind: isOneOf(WIND_UNITS, r.wind) ? r.wind : DEFAULT_UNITS.wind,
+    elevation: isOneOf(ELEVATION_UNITS, r.elevation) ? r.elevation : DEFAULT_UNITS.elevation,
+  };
+}
+
+export function loadUnitPrefs(): UnitPrefs {
+  try {
+    return parseUnitPrefs(JSON.parse(localStorage.getItem(UNITS_STORAGE_KEY) ?? 'null'));
+  } catch {
+    return DEFAULT_UNITS;
+  }
+}
+
+export function saveUnitPrefs(u: UnitPrefs) {
+  localStorage.setItem(UNITS_STORAGE_KEY, JSON.stringify(u));
+}
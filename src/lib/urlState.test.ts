@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest'
+import { hasUrlParam, linkWeights, readUrlState, URL_VERSION, writeUrlState } from './urlState'
+
+const DEFAULTS = readUrlState('')
+
+describe('readUrlState', () => {
+  it('upgrades a v1 link: total weight to rider + bike, split label to a percentage', () => {
+    const link = readUrlState('?theme=light&w=180&split=47%2F53+(Gravel+Bikes)&surface=Category+2+Gravel&width=40&tt=Mid-Range+casing+butyl+tube')
+    expect(link).toMatchObject({
+      theme: 'light', rw: 180, bw: 0, split: 47,
+      surface: 'Category 2 Gravel', width: 40, tt: 'Mid-Range casing butyl tube',
+    })
+  })
+
+  it('leaves a v2 link alone', () => {
+    const link = readUrlState('?v=2&w=180&rw=150')
+    expect(link.rw).toBe(150)
+    expect(link.bw).toBe(DEFAULTS.bw)
+  })
+
+  it('falls back on options it does not know', () => {
+    const link = readUrlState('?theme=blue&surface=Sand&wheel=36er&rwheel=36er&wet=sometimes')
+    expect(link.theme).toBe(DEFAULTS.theme)
+    expect(link.surface).toBe(DEFAULTS.surface)
+    expect(link.wheel).toBe(DEFAULTS.wheel)
+    expect(link.rwheel).toBeNull()
+    expect(link.wet).toBe(DEFAULTS.wet)
+  })
+
+  it('clamps required numbers and drops optional ones out of range', () => {
+    const link = readUrlState('?width=200&kmh=1&split=99&rwidth=500&lat=95&lon=6.6&hdg=-90&dur=abc')
+    expect(link).toMatchObject({ width: 90, kmh: 3, split: 70, rwidth: null, lat: null, lon: 6.6, hdg: 270, dur: DEFAULTS.dur })
+  })
+})
+
+describe('writeUrlState', () => {
+  beforeEach(() => window.history.replaceState({}, '', '/?other=1&width=35'))
+
+  it('leaves defaults out, keeps other parameters and stamps the version', () => {
+    writeUrlState({ width: DEFAULTS.width, rw: DEFAULTS.rw, surface: 'Category 2 Gravel', uw: 'kg' })
+    const params = new URLSearchParams(window.location.search)
+    expect(params.has('width')).toBe(false)
+    expect(params.has('rw')).toBe(false)
+    expect(params.get('surface')).toBe('Category 2 Gravel')
+    expect(params.get('uw')).toBe('kg')
+    expect(params.get('other')).toBe('1')
+    expect(params.get('v')).toBe(String(URL_VERSION))
+    expect(hasUrlParam('surface')).toBe(true)
+  })
+
+  it('reads back what it wrote', () => {
+    const state = { ...DEFAULTS, rw: 72.5, hdg: 135, place: 'Col du Galibier', t: new Date('2026-07-14T06:00:00Z') }
+    writeUrlState(state)
+    expect(readUrlState()).toEqual(state)
+  })
+})
+
+describe('linkWeights', () => {
+  it('reads a link without a weight unit as lb, converted for a kg preference', () => {
+    const link = readUrlState('')
+    expect(link.uw).toBeNull()
+    expect(linkWeights(link, 'kg')).toEqual({ rw: 72.6, bw: 9.1, cargo: [] })
+    expect(linkWeights(link, 'lbs')).toEqual({ rw: 160, bw: 20, cargo: [] })
+  })
+
+  it('keeps weights that say their unit', () => {
+    const link = readUrlState('?uw=kg&rw=68&bw=8.5')
+    expect(linkWeights(link, 'kg')).toEqual({ rw: 68, bw: 8.5, cargo: [] })
+  })
+})
@@ -1,12 +1,243 @@
-export function setQuery(params: Record<string, unknown>) {
-  const url = new URL(window.location.href);
-  Object.entries(params).forEach(([k, v]) => {
-    if (v === undefined || v === null || v === '') url.searchParams.delete(k);
-    else url.searchParams.set(k, String(v));
+// src/lib/urlState.ts
+// Shareable links: one typed schema for every query parameter, validated on read,
+// with the defaults left out on write and migrations for links from older versions.
+import { DEFAULT_FRONT_PCT, FRONT_PCT_RANGE, LBS_PER_KG, PRESETS, RIM_TYPES, SPEEDS, SURFACES, TIRE_TYPES, WHEEL_DIAMETERS } from '../constants';
+import type { CargoItem } from '../constants';
+import { parseCargo, parseFrontPct, serializeCargo } from './calc';
+import { parseCoefficientOverrides, serializeCoefficientOverrides } from './coefficients';
+import type { CoefficientOverrides } from './coefficients';
+import { CONDITION_MODES } from './conditions';
+import { RIM_DEPTH_RANGE } from './rimSafety';
+import { BRAKE_TYPES, BRAKING_LEVELS, SUN_EXPOSURES } from './tireHeating';
+import { WEIGHT_UNITS } from './units';
+import type { WeightUnit } from './units';
+
+/** Bump when a parameter or option label changes meaning, and add a migration for the old links. */
+export const URL_VERSION = 2;
+const VERSION_PARAM = 'v';
+
+type Range = { min: number; max: number };
+
+/**
+ * One query parameter. `parse` returns undefined for a value it can't use, which
+ * then reads as `fallback`; a value that serializes like the fallback is left out.
+ */
+type Field<T> = {
+  fallback: T;
+  parse(raw: string): T | undefined;
+  serialize?(value: T): string;
+};
+
+const oneOf = <T extends string>(options: readonly T[], fallback: T): Field<T> => ({
+  fallback,
+  parse: (raw) => options.find(o => o === raw),
+});
+
+const optionalOneOf = <T extends string>(options: readonly T[]): Field<T | null> => ({
+  fallback: null,
+  parse: (raw) => options.find(o => o === raw),
+});
+
+const toNumber = (raw: string) => {
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/** Always has a value, so out-of-range numbers are clamped. */
+const number = (range: Range, fallback: number): Field<number> => ({
+  fallback,
+  parse: (raw) => {
+    const n = toNumber(raw);
+    return n === undefined ? undefined : Math.min(range.max, Math.max(range.min, n));
+  },
+});
+
+/** Optional, so out-of-range numbers read as not given. */
+const optionalNumber = (range: Range, decimals?: number): Field<number | null> => ({
+  fallback: null,
+  parse: (raw) => {
+    const n = toNumber(raw);
+    return n !== undefined && n >= range.min && n <= range.max ? n : undefined;
+  },
+  serialize: (n) => (n === null ? '' : decimals === undefined ? String(n) : n.toFixed(decimals)),
+});
+
+const flag = (fallback: boolean): Field<boolean> => ({
+  fallback,
+  parse: (raw) => (raw === '1' ? true : raw === '0' ? false : undefined),
+  serialize: (on) => (on ? '1' : '0'),
+});
+
+const text = (maxLength: number): Field<string> => ({
+  fallback: '',
+  parse: (raw) => raw.slice(0, maxLength),
+});
+
+const THEMES = ['dark', 'light'] as const;
+const PRESET_NAMES = PRESETS.map(p => p.name);
+const WIDTH_RANGE = { min: 20, max: 90 };
+const WEIGHT_RANGE = { min: 0, max: 1000 };
+const TIRE_PSI_RANGE = { min: 5, max: 250 };
+const ELEVATION_RANGE = { min: -500, max: 9000 };
+const TEMP_RANGE = { min: -30, max: 50 };
+
+export const URL_SCHEMA = {
+  theme: oneOf(THEMES, 'dark'),
+  // Weights are in the link's own unit; without one the device preference applies
+  uw: optionalOneOf(WEIGHT_UNITS),
+  rw: number(WEIGHT_RANGE, 160),
+  bw: number(WEIGHT_RANGE, 20),
+  cargo: { fallback: [], parse: parseCargo, serialize: serializeCargo } as Field<CargoItem[]>,
+  surface: oneOf(SURFACES, 'Worn Pavement / Some Cracks'),
+  width: number(WIDTH_RANGE, 28),
+  wheel: oneOf(WHEEL_DIAMETERS, '700C/29"'),
+  tt: oneOf(TIRE_TYPES, 'High performance tire tubeless/latex tube'),
+  speed: oneOf(SPEEDS, 'Moderate Group Ride'),
+  split: number(FRONT_PCT_RANGE, DEFAULT_FRONT_PCT),
+  preset: optionalOneOf(PRESET_NAMES),
+  // Rear tire; null = same as the front
+  same: flag(true),
+  rwidth: optionalNumber(WIDTH_RANGE),
+  rwheel: optionalOneOf(WHEEL_DIAMETERS),
+  rtt: optionalOneOf(TIRE_TYPES),
+  coef: { fallback: {}, parse: parseCoefficientOverrides, serialize: serializeCoefficientOverrides } as Field<CoefficientOverrides>,
+  fit: flag(true),
+  rimt: oneOf(RIM_TYPES, 'hooked'),
+  rimw: optionalNumber({ min: 5, max: 80 }),
+  tmin: optionalNumber(TIRE_PSI_RANGE),
+  tmax: optionalNumber(TIRE_PSI_RANGE),
+  rtmin: optionalNumber(TIRE_PSI_RANGE),
+  rtmax: optionalNumber(TIRE_PSI_RANGE),
+  lat: optionalNumber({ min: -90, max: 90 }, 4),
+  lon: optionalNumber({ min: -180, max: 180 }, 4),
+  place: text(120),
+  t: {
+    fallback: null,
+    parse: (raw) => {
+      const d = new Date(raw);
+      return Number.isNaN(d.getTime()) ? undefined : d;
+    },
+    serialize: (d) => (d ? d.toISOString().slice(0, 16) + 'Z' : ''),
+  } as Field<Date | null>,
+  dur: number({ min: 0.5, max: 24 }, 3),
+  kmh: number({ min: 3, max: 60 }, 25),
+  hdg: {
+    fallback: null,
+    parse: (raw) => {
+      const h = toNumber(raw);
+      if (h === undefined) return undefined;
+      return h >= 0 && h < 360 ? h : ((h % 360) + 360) % 360;
+    },
+  } as Field<number | null>,
+  wet: oneOf(CONDITION_MODES, 'auto'),
+  night: oneOf(CONDITION_MODES, 'auto'),
+  rim: number(RIM_DEPTH_RANGE, 0),
+  alt0: optionalNumber(ELEVATION_RANGE),
+  alt1: optionalNumber(ELEVATION_RANGE),
+  abs: flag(true),
+  sun: oneOf(SUN_EXPOSURES, 'none'),
+  brakes: oneOf(BRAKE_TYPES, 'disc'),
+  braking: oneOf(BRAKING_LEVELS, 'moderate'),
+  drop: number({ min: 0, max: 5000 }, 0),
+  ref: number(TEMP_RANGE, 20),
+  indoor: optionalNumber(TEMP_RANGE),
+};
+
+type Schema = typeof URL_SCHEMA;
+export type UrlKey = keyof Schema;
+export type UrlState = { [K in UrlKey]: Schema[K]['fallback'] };
+
+/**
+ * Upgrades for links made before `to`, applied in order. A renamed option label
+ * gets one here that rewrites the old label, so shared links keep working.
+ */
+const MIGRATIONS: { to: number; migrate: (params: URLSearchParams) => void }[] = [
+  {
+    // v2: the single total weight `w` became rider + bike, and the split presets became a front percentage
+    to: 2,
+    migrate: (params) => {
+      const w = params.get('w');
+      if (w && !params.has('rw')) {
+        params.set('rw', w);
+        if (!params.has('bw')) params.set('bw', '0');
+      }
+      params.delete('w');
+      const split = params.get('split');
+      if (split && toNumber(split) === undefined) params.set('split', String(parseFrontPct(split)));
+    },
+  },
+];
+
+function migrateParams(search: string): URLSearchParams {
+  const params = new URLSearchParams(search);
+  // Links from before versioning have no `v`
+  const version = toNumber(params.get(VERSION_PARAM) ?? '') ?? 1;
+  for (const m of MIGRATIONS) if (m.to > version) m.migrate(params);
+  return params;
+}
+
+function readField<T>(field: Field<T>, raw: string | null): T {
+  if (raw == null || raw.trim() === '') return field.fallback;
+  return field.parse(raw) ?? field.fallback;
+}
+
+const rawSerialize = <T>(field: Field<T>, value: T) =>
+  field.serialize ? field.serialize(value) : value == null ? '' : String(value);
+
+function serializeField<T>(field: Field<T>, value: T): string {
+  const s = rawSerialize(field, value);
+  return s === rawSerialize(field, field.fallback) ? '' : s;
+}
+
+/** Whether a value reads back unchanged from its parameter, i.e. passes the same validation as a link. */
+export function isValidUrlValue<K extends UrlKey>(key: K, value: UrlState[K]): boolean {
+  const field: Field<unknown> = URL_SCHEMA[key];
+  const s = rawSerialize(field, value);
+  return s === '' || rawSerialize(field, readField(field, s)) === s;
+}
+
+/** The state as a link reads it back: every value through its parameter's validation (clamped, trimmed or dropped). */
+export function normalizeUrlState(state: UrlState): UrlState {
+  const entries = (Object.keys(URL_SCHEMA) as UrlKey[]).map(key => {
+    const field: Field<unknown> = URL_SCHEMA[key];
+    return [key, readField(field, rawSerialize(field, state[key]))];
   });
-  window.history.replaceState({}, '', url);
+  return Object.fromEntries(entries) as UrlState;
 }
 
-export function getQuery<T extends string = string>(key: T) {
-  return new URLSearchParams(window.location.search).get(key);
-}
\ No newline at end of file
+/** Every parameter, migrated and validated; anything missing or unusable takes its fallback. */
+export function readUrlState(search = window.location.search): UrlState {
+  const params = migrateParams(search);
+  const entries = (Object.keys(URL_SCHEMA) as UrlKey[]).map(key => [key, readField<unknown>(URL_SCHEMA[key], params.get(key))]);
+  return Object.fromEntries(entries) as UrlState;
+}
+
+/**
+ * The link's weights in `unit`. Without `uw` they are lb (the fallbacks are, and so
+ * were links from before it), so a kg preference gets them converted.
+ */
+export function linkWeights({ uw, rw, bw, cargo }: UrlState, unit: WeightUnit): Pick<UrlState, 'rw' | 'bw' | 'cargo'> {
+  if ((uw ?? 'lbs') === unit) return { rw, bw, cargo };
+  const f = unit === 'kg' ? 1 / LBS_PER_KG : LBS_PER_KG;
+  const conv = (w: number) => Math.round(w * f * 10) / 10;
+  return { rw: conv(rw), bw: conv(bw), cargo: cargo.map(c => ({ ...c, weight: conv(c.weight) })) };
+}
+
+/** Whether the (migrated) link sets this parameter; defaults are never written, so this means "changed". */
+export function hasUrlParam(key: UrlKey): boolean {
+  return migrateParams(window.location.search).has(key);
+}
+
+/** Update some parameters in place (no history entry); defaults are left out to keep links short. */
+export function writeUrlState(values: Partial<UrlState>) {
+  const url = new URL(window.location.href);
+  const params = migrateParams(url.search);
+  for (const key of Object.keys(values) as UrlKey[]) {
+    const s = serializeField<unknown>(URL_SCHEMA[key], values[key]);
+    if (s === '') params.delete(key);
+    else params.set(key, s);
+  }
+  params.set(VERSION_PARAM, String(URL_VERSION));
+  url.search = params.toString();
+  window.history.replaceState({}, '', url);
+}
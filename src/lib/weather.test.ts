@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { createCachedProvider, createFixtureProvider, MEMORY_CACHE_LIMIT, weatherAt } from "./weather";
+import type { HourlyWeather, LatLng, WeatherProvider } from "./weather";
+
+const FIXTURE_HOURLY: HourlyWeather = {
+  time: ["2026-06-01T08:00Z", "2026-06-01T09:00Z"],
+  temperatureC: [14, 16],
+  windSpeedKmh: [10, 12],
+  windDirectionDeg: [270, 280],
+  windGustKmh: [18, null],
+};
+
+/** Counts lookups; each one waits for `release()` and honours its abort signal. */
+function countingProvider() {
+  const calls: LatLng[] = [];
+  const aborted: LatLng[] = [];
+  const pending: (() => void)[] = [];
+  const fixture = createFixtureProvider({ hourly: FIXTURE_HOURLY, elevationM: 120 });
+  const provider: WeatherProvider = {
+    getHourly: (coords, signal) => {
+      calls.push(coords);
+      return new Promise((resolve, reject) => {
+        signal?.addEventListener("abort", () => {
+          aborted.push(coords);
+          reject(new DOMException("aborted", "AbortError"));
+        });
+        pending.push(() => resolve(fixture.getHourly(coords)));
+      });
+    },
+    getElevationM: fixture.getElevationM,
+  };
+  return { provider, calls, aborted, release: () => pending.splice(0).forEach(r => r()) };
+}
+
+const at = (lat: number): LatLng => ({ lat, lon: 8.5 });
+const now = () => new Date("2026-06-01T08:30:00Z");
+
+describe("createCachedProvider", () => {
+  it("shares one lookup per location and hour", async () => {
+    const inner = countingProvider();
+    const cached = createCachedProvider(inner.provider, { now });
+    const both = Promise.all([cached.getHourly(at(47)), cached.getHourly(at(47.001))]);
+    inner.release();
+    const [a, b] = await both;
+    expect(inner.calls).toHaveLength(1);
+    expect(weatherAt(a, now()).temperatureC).toBe(14);
+    expect(b).toBe(a);
+  });
+
+  it("keeps at most MEMORY_CACHE_LIMIT entries in memory", async () => {
+    const inner = countingProvider();
+    const cached = createCachedProvider(inner.provider, { now });
+    const first = cached.getHourly(at(0));
+    for (let i = 1; i <= MEMORY_CACHE_LIMIT; i++) cached.getHourly(at(i));
+    inner.release();
+    await first;
+    // The first location was evicted, so asking again looks it up again
+    const again = cached.getHourly(at(0));
+    inner.release();
+    await again;
+    expect(inner.calls).toHaveLength(MEMORY_CACHE_LIMIT + 2);
+  });
+
+  it("aborts the shared lookup only when every caller has given up", async () => {
+    const inner = countingProvider();
+    const cached = createCachedProvider(inner.provider, { now });
+    const one = new AbortController();
+    const two = new AbortController();
+    const first = cached.getHourly(at(47), one.signal);
+    const second = cached.getHourly(at(47), two.signal);
+    one.abort();
+    await expect(first).rejects.toThrow(/aborted/);
+    expect(inner.aborted).toHaveLength(0);
+    two.abort();
+    await expect(second).rejects.toThrow(/aborted/);
+    expect(inner.aborted).toHaveLength(1);
+    // An aborted lookup isn't cached
+    const retry = cached.getHourly(at(47));
+    inner.release();
+    await retry;
+    expect(inner.calls).toHaveLength(2);
+  });
+});
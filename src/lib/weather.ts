@@ -0,0 +1,252 @@
+// src/lib/weather.ts
+// Weather provider interface + Open-Meteo implementation, an hourly cache
+// (memory + localStorage, so the last forecast works offline) and a
+// fixture-backed provider for tests and offline demos.
+
+export type LatLng = { lat: number; lon: number };
+
+export const WIND_UNITS = ["mph", "kmh", "ms", "kn"] as const;
+export type WindUnit = typeof WIND_UNITS[number];
+
+/** Hourly series, index-aligned. Times are ISO strings in UTC. Wind in km/h. */
+export type HourlyWeather = {
+  time: string[];
+  temperatureC: number[];
+  windSpeedKmh: number[];
+  windDirectionDeg: number[];
+  windGustKmh: (number | null)[];
+  // Optional: forecasts cached before these were fetched don't have them
+  precipitationMm?: (number | null)[];
+  isDay?: (boolean | null)[];
+};
+
+export type WeatherAt = {
+  time: string;
+  temperatureC: number;
+  windSpeedKmh: number;
+  windDirectionDeg: number;
+  windGustKmh: number | null;
+  precipitationMm: number | null;
+  isDay: boolean | null;
+};
+
+/** `signal` lets a caller give up on a lookup it no longer needs (e.g. the location changed). */
+export interface WeatherProvider {
+  /** Hourly forecast around now (a day back, up to the forecast horizon ahead). */
+  getHourly(coords: LatLng, signal?: AbortSignal): Promise<HourlyWeather>;
+  /** Ground elevation in meters. */
+  getElevationM(coords: LatLng, signal?: AbortSignal): Promise<number>;
+}
+
+/* Helpers */
+const KMH_TO: Record<WindUnit, number> = { mph: 0.621371, kmh: 1, ms: 1 / 3.6, kn: 0.539957 };
+
+export function convertWindSpeed(kmh: number, unit: WindUnit) {
+  return kmh * KMH_TO[unit];
+}
+
+/** Index of the hour closest to `when`. */
+export function nearestHourIndex(times: readonly string[], when: Date) {
+  const target = when.getTime();
+  let idx = 0, best = Infinity;
+  for (let i = 0; i < times.length; i++) {
+    const d = Math.abs(new Date(times[i]).getTime() - target);
+    if (d < best) { best = d; idx = i; }
+  }
+  return idx;
+}
+
+/** Conditions for the hour closest to `when`. */
+export function weatherAt(hourly: HourlyWeather, when: Date): WeatherAt {
+  if (!hourly.time.length) throw new Error("No weather data returned");
+  const i = nearestHourIndex(hourly.time, when);
+  return {
+    time: hourly.time[i],
+    temperatureC: hourly.temperatureC[i],
+    windSpeedKmh: hourly.windSpeedKmh[i],
+    windDirectionDeg: hourly.windDirectionDeg[i],
+    windGustKmh: hourly.windGustKmh[i] ?? null,
+    precipitationMm: hourly.precipitationMm?.[i] ?? null,
+    isDay: hourly.isDay?.[i] ?? null,
+  };
+}
+
+/** How far ahead the default provider fetches, and so how far ahead a ride can be planned. */
+export const FORECAST_HORIZON_DAYS = 7;
+
+/* Open-Meteo (no API key) */
+export type OpenMeteoOptions = {
+  fetchFn?: typeof fetch;
+  pastDays?: number;
+  forecastDays?: number; // counts today, so the default is one past the horizon
+};
+
+export function createOpenMeteoProvider(opts: OpenMeteoOptions = {}): WeatherProvider {
+  const { fetchFn = fetch, pastDays = 1, forecastDays = FORECAST_HORIZON_DAYS + 1 } = opts;
+
+  return {
+    async getHourly({ lat, lon }, signal) {
+      const url = new URL("https://api.open-meteo.com/v1/forecast");
+      url.searchParams.set("latitude", String(lat));
+      url.searchParams.set("longitude", String(lon));
+      url.searchParams.set("hourly", "temperature_2m,windspeed_10m,winddirection_10m,windgusts_10m,precipitation,is_day");
+      url.searchParams.set("timezone", "GMT");
+      url.searchParams.set("past_days", String(pastDays));
+      url.searchParams.set("forecast_days", String(forecastDays));
+
+      const res = await fetchFn(url.toString(), { signal });
+      if (!res.ok) throw new Error(`Open-Meteo forecast failed: ${res.status}`);
+      const j = await res.json();
+      const h = j?.hourly ?? {};
+      const time: string[] = (h.time ?? []).map((t: string) => `${t}Z`);
+      if (!time.length) throw new Error("No weather data returned");
+      return {
+        time,
+        temperatureC: h.temperature_2m ?? [],
+        windSpeedKmh: h.windspeed_10m ?? [],
+        windDirectionDeg: h.winddirection_10m ?? [],
+        windGustKmh: h.windgusts_10m ?? [],
+        precipitationMm: h.precipitation ?? [],
+        isDay: (h.is_day ?? []).map((d: number | null) => (d == null ? null : d === 1)),
+      };
+    },
+
+    // Copernicus DEM GLO-90
+    async getElevationM({ lat, lon }, signal) {
+      const res = await fetchFn(`https://api.open-meteo.com/v1/elevation?latitude=${lat}&longitude=${lon}`, { signal });
+      if (!res.ok) throw new Error(`Open-Meteo elevation failed: ${res.status}`);
+      const data = await res.json();
+      const elevation = data?.elevation?.[0];
+      if (typeof elevation !== "number") throw new Error("No elevation returned");
+      return elevation;
+    },
+  };
+}
+
+/* Cache */
+export type CacheOptions = {
+  storage?: Pick<Storage, "getItem" | "setItem"> | null;
+  now?: () => Date;
+  keyPrefix?: string;
+};
+
+/** ~1 km grid so nearby lookups share an entry. */
+export const locationKey = ({ lat, lon }: LatLng) => `${lat.toFixed(2)},${lon.toFixed(2)}`;
+const hourKey = (d: Date) => d.toISOString().slice(0, 13);
+
+type Stored<T> = { hour: string; value: T };
+
+/** In-memory entries kept per cached provider; the oldest go first (localStorage keeps the rest). */
+export const MEMORY_CACHE_LIMIT = 32;
+
+type Entry = { hour: string; promise: Promise<unknown>; controller: AbortController; waiting: number; settled: boolean };
+
+const abortError = () => new DOMException("Weather lookup aborted", "AbortError");
+
+/**
+ * Wrap a provider with a cache keyed by location and the current hour.
+ * Concurrent requests share one fetch, which is aborted only once every caller
+ * waiting on it has aborted. When the inner provider fails (e.g. offline), the
+ * last stored value for the location is returned instead.
+ */
+export function createCachedProvider(inner: WeatherProvider, opts: CacheOptions = {}): WeatherProvider {
+  const { storage = null, now = () => new Date(), keyPrefix = "tpc.wx" } = opts;
+  const memory = new Map<string, Entry>();
+
+  // Earlier hours are never asked for again; past that, drop the oldest entries
+  function evict(hour: string) {
+    for (const [key, entry] of memory) {
+      if (entry.hour !== hour && entry.hour !== "static") memory.delete(key);
+    }
+    for (const key of memory.keys()) {
+      if (memory.size < MEMORY_CACHE_LIMIT) break;
+      memory.delete(key);
+    }
+  }
+
+  // Each caller can stop waiting on its own; the shared fetch stops when nobody is left
+  function wait<T>(key: string, entry: Entry, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(abortError());
+    entry.waiting++;
+    // Without a signal the caller can't give up, so the fetch is never aborted under it
+    if (!signal) return entry.promise as Promise<T>;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        if (--entry.waiting === 0 && !entry.settled) {
+          entry.controller.abort();
+          if (memory.get(key) === entry) memory.delete(key);
+        }
+        reject(abortError());
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      (entry.promise as Promise<T>).then(
+        value => { signal.removeEventListener("abort", onAbort); resolve(value); },
+        err => { signal.removeEventListener("abort", onAbort); reject(err); }
+      );
+    });
+  }
+
+  function readStored<T>(key: string): Stored<T> | null {
+    try {
+      const raw = storage?.getItem(key);
+      return raw ? (JSON.parse(raw) as Stored<T>) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  function cached<T>(kind: string, coords: LatLng, load: (signal: AbortSignal) => Promise<T>, hourly: boolean, signal?: AbortSignal): Promise<T> {
+    const hour = hourly ? hourKey(now()) : "static";
+    const storageKey = `${keyPrefix}.${kind}.${locationKey(coords)}`;
+    const memoryKey = `${storageKey}@${hour}`;
+    const hit = memory.get(memoryKey);
+    if (hit) return wait<T>(memoryKey, hit, signal);
+
+    const stored = readStored<T>(storageKey);
+    const controller = new AbortController();
+    const entry: Entry = { hour, promise: Promise.resolve(), controller, waiting: 0, settled: false };
+    entry.promise = (stored && stored.hour === hour
+      ? Promise.resolve(stored.value)
+      : load(controller.signal).then(
+          value => {
+            try { storage?.setItem(storageKey, JSON.stringify({ hour, value })); } catch { /* quota: memory cache still works */ }
+            return value;
+          },
+          err => {
+            if (memory.get(memoryKey) === entry) memory.delete(memoryKey);
+            if (stored && !controller.signal.aborted) return stored.value;
+            throw err;
+          }
+        )
+    ).finally(() => { entry.settled = true; });
+    // Nobody may be left to handle a rejection of the shared promise itself
+    entry.promise.catch(() => {});
+    evict(hour);
+    memory.set(memoryKey, entry);
+    return wait<T>(memoryKey, entry, signal);
+  }
+
+  return {
+    getHourly: (coords, signal) => cached("hourly", coords, s => inner.getHourly(coords, s), true, signal),
+    getElevationM: (coords, signal) => cached("elev", coords, s => inner.getElevationM(coords, s), false, signal),
+  };
+}
+
+/* Fixtures */
+export type WeatherFixture = {
+  hourly: HourlyWeather;
+  elevationM: number;
+};
+
+/** Provider that serves fixed data for any location; no network. */
+export function createFixtureProvider(fixture: WeatherFixture): WeatherProvider {
+  return {
+    getHourly: async () => fixture.hourly,
+    getElevationM: async () => fixture.elevationM,
+  };
+}
+
+/** Default app provider: Open-Meteo behind the hourly cache. */
+export const defaultWeatherProvider: WeatherProvider = createCachedProvider(createOpenMeteoProvider(), {
+  storage: typeof localStorage === "undefined" ? null : localStorage,
+});
@@ -0,0 +1,124 @@
+// src/lib/wheelLimits.ts
+// Rim/tire compatibility: pressure ceilings (hookless, tire sidewall) and ETRTO width checks.
+import { HOOKLESS_MAX_PSI, RIM_TYPES } from '../constants';
+import type { RimType } from '../constants';
+
+export type RimSetup = { rimType: RimType; internalWidthMm: number | null };
+/** Printed on the tire sidewall; null = not entered. */
+export type TireLimits = { minPsi: number | null; maxPsi: number | null };
+
+export const DEFAULT_RIM: RimSetup = { rimType: 'hooked', internalWidthMm: null };
+export const NO_TIRE_LIMITS: TireLimits = { minPsi: null, maxPsi: null };
+
+/** The model's own range (see computeWheelPsi). */
+export const MODEL_PSI_RANGE = { min: 15, max: 130 };
+
+/**
+ * Approximate ETRTO tire-to-rim guidance: tire width between 1.1× and 2.5× the
+ * internal rim width; hookless rims additionally need at least internal + 3 mm.
+ */
+export const ETRTO_WIDTH = { minRatio: 1.1, maxRatio: 2.5, hooklessMinExtraMm: 3 };
+
+export type LimitWarning = { level: 'warning' | 'error'; message: string };
+
+export type LimitedPsi = {
+  psi: number;
+  /** The model's value before clamping, when a limit was applied. */
+  unclampedPsi: number | null;
+  minPsi: number;
+  maxPsi: number;
+  warnings: LimitWarning[];
+};
+
+export type Wheel = 'front' | 'rear';
+/** The rim and tire limits of the current setup, for any pressure the app suggests pumping. */
+export type WheelLimiter = (wheel: Wheel, psi: number) => LimitedPsi;
+
+/**
+ * The clamp warnings for a front/rear pair of derived pressures (weather, timeline,
+ * altitude), labelled by wheel; the setup's other warnings are shown with the result.
+ */
+export function wheelClampWarnings(front: LimitedPsi | null, rear: LimitedPsi | null): LimitWarning[] {
+  return ([['Front', front], ['Rear', rear]] as const).flatMap(([label, l]) => {
+    // The clamp is the last warning applyWheelLimits adds
+    const w = l?.unclampedPsi != null ? l.warnings[l.warnings.length - 1] : undefined;
+    return w ? [{ ...w, message: `${label}: ${w.message}` }] : [];
+  });
+}
+
+/** Tire widths (mm) ETRTO allows on a rim; null for tubulars or an unknown rim width. */
+export function etrtoTireRange(rim: RimSetup): { minMm: number; maxMm: number } | null {
+  const w = rim.internalWidthMm;
+  if (rim.rimType === 'tubular' || w == null || !(w > 0)) return null;
+  const minMm = rim.rimType === 'hookless'
+    ? Math.max(w * ETRTO_WIDTH.minRatio, w + ETRTO_WIDTH.hooklessMinExtraMm)
+    : w * ETRTO_WIDTH.minRatio;
+  return { minMm: Math.round(minMm), maxMm: Math.round(w * ETRTO_WIDTH.maxRatio) };
+}
+
+/**
+ * Clamp a recommendation to the rim and tire limits and explain any conflict.
+ * The tightest ceiling wins; an ETRTO width mismatch or limits that can't all be
+ * met are errors rather than warnings.
+ */
+export function applyWheelLimits(psi: number, { rim, tire, tireWidthMm, format = p => `${Math.round(p * 10) / 10} psi` }: {
+  rim: RimSetup;
+  tire: TireLimits;
+  tireWidthMm: number;
+  /** Pressure formatting for messages (display units). */
+  format?: (psi: number) => string;
+}): LimitedPsi {
+  const warnings: LimitWarning[] = [];
+
+  const ceilings: { psi: number; source: string }[] = [{ psi: MODEL_PSI_RANGE.max, source: 'model maximum' }];
+  if (rim.rimType === 'hookless') ceilings.push({ psi: HOOKLESS_MAX_PSI, source: 'hookless rim limit' });
+  if (tire.maxPsi != null) ceilings.push({ psi: tire.maxPsi, source: 'tire maximum' });
+  const floors: { psi: number; source: string }[] = [{ psi: MODEL_PSI_RANGE.min, source: 'model minimum' }];
+  if (tire.minPsi != null) floors.push({ psi: tire.minPsi, source: 'tire minimum' });
+
+  const ceiling = ceilings.reduce((a, b) => (b.psi < a.psi ? b : a));
+  const floor = floors.reduce((a, b) => (b.psi > a.psi ? b : a));
+
+  const range = etrtoTireRange(rim);
+  if (range && (tireWidthMm < range.minMm || tireWidthMm > range.maxMm)) {
+    warnings.push({
+      level: 'error',
+      message: `A ${tireWidthMm} mm tire is outside the ETRTO range for a ${rim.internalWidthMm} mm ${rim.rimType} rim (${range.minMm}–${range.maxMm} mm). Don't ride this combination.`,
+    });
+  }
+
+  if (floor.psi > ceiling.psi) {
+    warnings.push({
+      level: 'error',
+      message: `The ${floor.source} (${format(floor.psi)}) is above the ${ceiling.source} (${format(ceiling.psi)}); this tire and rim can't be used together.`,
+    });
+    return { psi: ceiling.psi, unclampedPsi: psi, minPsi: floor.psi, maxPsi: ceiling.psi, warnings };
+  }
+
+  let limited = psi;
+  if (psi > ceiling.psi) {
+    limited = ceiling.psi;
+    warnings.push({ level: 'warning', message: `Recommended ${format(psi)} exceeds the ${ceiling.source}; clamped to ${format(ceiling.psi)}. Consider a wider tire.` });
+  } else if (psi < floor.psi) {
+    limited = floor.psi;
+    warnings.push({ level: 'warning', message: `Recommended ${format(psi)} is below the ${floor.source}; raised to ${format(floor.psi)}. Consider a tire rated for lower pressures.` });
+  }
+
+  return { psi: limited, unclampedPsi: limited === psi ? null : psi, minPsi: floor.psi, maxPsi: ceiling.psi, warnings };
+}
+
+const isRimType = (v: unknown): v is RimType => RIM_TYPES.includes(v as RimType);
+const optionalPositive = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) && v > 0 ? v : null);
+
+/** Validate untrusted rim data (URL or imported profile); falls back to the default rim. */
+export function parseRimSetup(raw: unknown): RimSetup {
+  if (typeof raw !== 'object' || raw === null) return DEFAULT_RIM;
+  const { rimType, internalWidthMm } = raw as Record<string, unknown>;
+  return { rimType: isRimType(rimType) ? rimType : DEFAULT_RIM.rimType, internalWidthMm: optionalPositive(internalWidthMm) };
+}
+
+export function parseTireLimits(raw: unknown): TireLimits {
+  if (typeof raw !== 'object' || raw === null) return NO_TIRE_LIMITS;
+  const { minPsi, maxPsi } = raw as Record<string, unknown>;
+  return { minPsi: optionalPositive(minPsi), maxPsi: optionalPositive(maxPsi) };
+}
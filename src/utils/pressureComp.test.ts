@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { HOOKLESS_MAX_PSI } from '../constants'
+import { createFixtureProvider } from '../lib/weather'
+import type { HourlyWeather } from '../lib/weather'
+import { applyWheelLimits, NO_TIRE_LIMITS } from '../lib/wheelLimits'
+import type { WheelLimiter } from '../lib/wheelLimits'
+import { ambientPressureAtElevation_kPa, buildRideTimeline, KPA_TO_PSI, planAltitudeChange, recommendPressures } from './pressureComp'
+
+// A steady 8 °C morning, so the ride midpoint and the weather card's hour agree
+const HOURLY: HourlyWeather = {
+  time: ['2026-06-01T06:00Z', '2026-06-01T07:00Z', '2026-06-01T08:00Z', '2026-06-01T09:00Z'],
+  temperatureC: [8, 8, 8, 8],
+  windSpeedKmh: [5, 5, 5, 5],
+  windDirectionDeg: [180, 180, 180, 180],
+  windGustKmh: [null, null, null, null],
+}
+const ELEVATION_M = 400
+const start = new Date('2026-06-01T06:00Z')
+
+describe('buildRideTimeline', () => {
+  it('agrees with the weather card on what to pump indoors', async () => {
+    const targets = { refTempC: 20, indoor: 18, front: 60, rear: 64 }
+    const card = await recommendPressures({
+      coords: { lat: 46.5, lon: 6.6 },
+      frontPsiRef: targets.front,
+      rearPsiRef: targets.rear,
+      refTempC: targets.refTempC,
+      inflationTempC: targets.indoor,
+      when: start,
+      provider: createFixtureProvider({ hourly: HOURLY, elevationM: ELEVATION_M }),
+    })
+    const timeline = buildRideTimeline({
+      hourly: HOURLY,
+      start,
+      durationH: 2,
+      frontTargetPsi: targets.front,
+      rearTargetPsi: targets.rear,
+      ambientPressurePsi: ambientPressureAtElevation_kPa(ELEVATION_M) * KPA_TO_PSI,
+      refTempC: targets.refTempC,
+      inflationTempC: targets.indoor,
+    })
+    expect(timeline.inflationTempC).toBe(targets.indoor)
+    expect(timeline.inflateFrontPsi).toBe(card.front.psi)
+    expect(timeline.inflateRearPsi).toBe(card.rear.psi)
+    expect(timeline.hours.find(h => h.isMidpoint)!.frontPsi).toBe(card.front.ridePsi)
+  })
+})
+
+describe('wheel limits on derived pressures', () => {
+  const hookless: WheelLimiter = (_wheel, psi) =>
+    applyWheelLimits(psi, { rim: { rimType: 'hookless', internalWidthMm: null }, tire: NO_TIRE_LIMITS, tireWidthMm: 25 })
+
+  it('holds the timeline inflate pressure to the rim limit', () => {
+    // Pumping in a warm room before a cold ride asks for more than a hookless rim allows
+    const cold = { ...HOURLY, temperatureC: [2, 2, 2, 2] }
+    const timeline = buildRideTimeline({
+      hourly: cold, start, durationH: 2, frontTargetPsi: 70, rearTargetPsi: 72,
+      ambientPressurePsi: 14.7, refTempC: 2, inflationTempC: 30, limitPsi: hookless,
+    })
+    expect(timeline.inflateRearPsi).toBe(HOOKLESS_MAX_PSI)
+    expect(timeline.rearLimits?.unclampedPsi).toBeGreaterThan(HOOKLESS_MAX_PSI)
+    expect(Math.max(...timeline.hours.map(h => h.rearPsi))).toBeLessThan(72)
+  })
+
+  it('holds the altitude inflate pressure to the rim limit', () => {
+    const plan = planAltitudeChange({
+      frontTargetPsi: 70, rearTargetPsi: 72, inflationElevationM: 0, summitElevationM: 2500,
+      inflationTempC: 20, limitPsi: hookless,
+    })
+    expect(plan.rear.inflatePsi).toBeLessThanOrEqual(HOOKLESS_MAX_PSI)
+    expect(plan.rear.limits?.warnings).toHaveLength(1)
+  })
+})
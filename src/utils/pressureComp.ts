@@ -1,8 +1,10 @@
 // utils/pressureComp.ts
 // Minimal TS utility for weather+elevation and pressure compensation.
-// Uses Open-Meteo (no API key). Works in browser environments.
+// Weather comes from a WeatherProvider (Open-Meteo by default, no API key).
 
-type LatLng = { lat: number; lon: number };
+import { defaultWeatherProvider, nearestHourIndex, weatherAt } from "../lib/weather";
+import type { HourlyWeather, LatLng, WeatherProvider } from "../lib/weather";
+import type { LimitedPsi, Wheel, WheelLimiter } from "../lib/wheelLimits";
 
 export type RecommendInput = {
   // If omitted, we'll use browser geolocation (with user permission)
@@ -22,15 +24,32 @@ export type RecommendInput = {
   // Advanced: keep absolute pressure constant (rarely needed).
   // If false (default), we keep gauge psi constant and only apply temperature scaling.
   keepAbsoluteConstant?: boolean;
+
+  // Tire air above ambient while riding (sun-heated tarmac etc.), °C. We inflate
+  // at ambient, so the set pressure is lowered to reach the target once warm.
+  tireHeatC?: number;
+
+  // Air temperature where the tires are pumped (e.g. a heated garage), °C.
+  // Defaults to the forecast ambient, i.e. inflating outside just before the ride.
+  inflationTempC?: number;
+
+  // Where temperature/elevation come from; pass a fixture provider to run offline.
+  provider?: WeatherProvider;
+
+  // Cancels the weather lookups when the result is no longer wanted.
+  signal?: AbortSignal;
 };
 
 export type RecommendOutput = {
   coords: LatLng;
   elevationM: number;
   ambientTempC: number;
+  tireTempC: number;          // tire air while riding (ambient + tireHeatC)
   ambientPressurePsi: number; // from elevation model
-  front: { psi: number; note: string };
-  rear: { psi: number; note: string };
+  inflationTempC: number;
+  // psi = gauge reading to set where you inflate; ridePsi = in the tire while riding
+  front: { psi: number; ridePsi: number; note: string };
+  rear: { psi: number; ridePsi: number; note: string };
 };
 
 /** Get browser geolocation (prompts the user). */
@@ -53,52 +72,6 @@ export function getGeolocation(): Promise<LatLng> {
   });
 }
 
-/** Fetch hourly temperature (°C) and return the hour closest to `when` (or now). */
-export async function fetchOpenMeteoTempC(
-  coords: LatLng,
-  when: Date = new Date()
-): Promise<number> {
-  const { lat, lon } = coords;
-  const url =
-    `https://api.open-meteo.com/v1/forecast` +
-    `?latitude=${lat}&longitude=${lon}` +
-    `&hourly=temperature_2m&forecast_days=2&past_days=1&timezone=auto`;
-
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`Open-Meteo temp fetch failed: ${res.status}`);
-  const data = await res.json();
-
-  const times: string[] = data?.hourly?.time ?? [];
-  const temps: number[] = data?.hourly?.temperature_2m ?? [];
-  if (!times.length || !temps.length) throw new Error("No temp data returned");
-
-  const targetMs = when.getTime();
-  let bestIdx = 0;
-  let bestDelta = Number.POSITIVE_INFINITY;
-
-  for (let i = 0; i < times.length; i++) {
-    const tMs = new Date(times[i]).getTime();
-    const d = Math.abs(tMs - targetMs);
-    if (d < bestDelta) {
-      bestDelta = d;
-      bestIdx = i;
-    }
-  }
-  return temps[bestIdx];
-}
-
-/** Fetch elevation (meters) via Open-Meteo (Copernicus DEM GLO-90). */
-export async function fetchOpenMeteoElevationM(coords: LatLng): Promise<number> {
-  const { lat, lon } = coords;
-  const url = `https://api.open-meteo.com/v1/elevation?latitude=${lat}&longitude=${lon}`;
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`Open-Meteo elevation failed: ${res.status}`);
-  const data = await res.json();
-  const elevation = data?.elevation?.[0];
-  if (typeof elevation !== "number") throw new Error("No elevation returned");
-  return elevation;
-}
-
 /** Standard atmosphere: ambient pressure (kPa) from elevation (meters). */
 export function ambientPressureAtElevation_kPa(h_m: number): number {
   // ISA model (valid up to ~11km): P = P0 * (1 - L*h/T0)^(g*M/R*L)
@@ -109,7 +82,7 @@ export function ambientPressureAtElevation_kPa(h_m: number): number {
   return pressure;
 }
 
-const KPA_TO_PSI = 0.1450377377;
+export const KPA_TO_PSI = 0.1450377377;
 
 /** Kelvin helper */
 const C_to_K = (c: number) => c + 273.15;
@@ -153,6 +126,176 @@ export function compensatePressurePsi(
   }
 }
 
+export type TimelineHour = {
+  time: string;
+  temperatureC: number;
+  windSpeedKmh: number;
+  windDirectionDeg: number;
+  windGustKmh: number | null;
+  frontPsi: number;   // in-tire gauge pressure this hour
+  rearPsi: number;
+  isMidpoint: boolean;
+};
+
+export type RideTimeline = {
+  hours: TimelineHour[];
+  startTempC: number;
+  midpointTempC: number;
+  midpointTime: string;
+  // Where the tires are pumped: indoors when given, otherwise outside at the start
+  inflationTempC: number;
+  // What to inflate to so the tires are on target at the midpoint (within the wheel limits, when given)
+  inflateFrontPsi: number;
+  inflateRearPsi: number;
+  frontLimits: LimitedPsi | null;
+  rearLimits: LimitedPsi | null;
+};
+
+/**
+ * Hour-by-hour conditions across a ride window. The targets are gauge pressures
+ * at `refTempC`; tires are inflated (at `inflationTempC`, default the start-hour
+ * temperature) so they read the temperature-corrected target at the ride's
+ * midpoint, the same way `recommendPressures` corrects them for the current hour.
+ * With `limitPsi`, the inflate pressures are held to the rim and tire limits.
+ * Each hour then shows the gauge reading that follows from the ideal-gas scaling
+ * in `compensatePressurePsi`.
+ */
+export function buildRideTimeline(params: {
+  hourly: HourlyWeather;
+  start: Date;
+  durationH: number;
+  frontTargetPsi: number;
+  rearTargetPsi: number;
+  ambientPressurePsi: number;
+  refTempC?: number;
+  inflationTempC?: number | null;
+  limitPsi?: WheelLimiter;
+}): RideTimeline {
+  const { hourly, start, durationH, frontTargetPsi, rearTargetPsi, ambientPressurePsi, refTempC = 20 } = params;
+  if (!hourly.time.length) throw new Error("No weather data returned");
+  const hourMs = 3600 * 1000;
+  const first = nearestHourIndex(hourly.time, start);
+  const last = nearestHourIndex(hourly.time, new Date(start.getTime() + durationH * hourMs));
+  const mid = nearestHourIndex(hourly.time, new Date(start.getTime() + (durationH / 2) * hourMs));
+
+  const startTempC = hourly.temperatureC[first];
+  const midpointTempC = hourly.temperatureC[mid];
+  const inflationTempC = params.inflationTempC ?? startTempC;
+  const inflate = (target: number) => {
+    const atMidpoint = compensatePressurePsi(target, refTempC, midpointTempC, ambientPressurePsi);
+    return compensatePressurePsi(atMidpoint, midpointTempC, inflationTempC, ambientPressurePsi);
+  };
+  const frontLimits = params.limitPsi?.("front", inflate(frontTargetPsi)) ?? null;
+  const rearLimits = params.limitPsi?.("rear", inflate(rearTargetPsi)) ?? null;
+  const inflateFrontPsi = frontLimits?.psi ?? inflate(frontTargetPsi);
+  const inflateRearPsi = rearLimits?.psi ?? inflate(rearTargetPsi);
+
+  const hours: TimelineHour[] = [];
+  for (let i = first; i <= last; i++) {
+    const t = hourly.temperatureC[i];
+    hours.push({
+      time: hourly.time[i],
+      temperatureC: t,
+      windSpeedKmh: hourly.windSpeedKmh[i],
+      windDirectionDeg: hourly.windDirectionDeg[i],
+      windGustKmh: hourly.windGustKmh[i] ?? null,
+      frontPsi: round1(compensatePressurePsi(inflateFrontPsi, inflationTempC, t, ambientPressurePsi)),
+      rearPsi: round1(compensatePressurePsi(inflateRearPsi, inflationTempC, t, ambientPressurePsi)),
+      isMidpoint: i === mid,
+    });
+  }
+
+  return {
+    hours,
+    startTempC,
+    midpointTempC,
+    midpointTime: hourly.time[mid],
+    inflationTempC,
+    inflateFrontPsi: round1(inflateFrontPsi),
+    inflateRearPsi: round1(inflateRearPsi),
+    frontLimits,
+    rearLimits,
+  };
+}
+
+/** Gauge rise (psi) when the tire air warms by `riseC` from `tempC`, e.g. braking on a descent. */
+export function pressureRisePsi(gaugePsi: number, tempC: number, riseC: number, ambientPressurePsi: number): number {
+  return round1(compensatePressurePsi(gaugePsi, tempC, tempC + riseC, ambientPressurePsi) - gaugePsi);
+}
+
+// Standard-atmosphere temperature lapse rate, used to guess summit temperature
+export const LAPSE_RATE_C_PER_M = 0.0065;
+
+export type AltitudePlan = {
+  inflationAmbientPsi: number;
+  summitAmbientPsi: number;
+  summitTempC: number;
+  front: AltitudeWheelPlan;
+  rear: AltitudeWheelPlan;
+};
+
+export type AltitudeWheelPlan = {
+  // Within the wheel limits, when given; `limits` then says whether that took a clamp
+  inflatePsi: number;
+  limits: LimitedPsi | null;
+  summitPsi: number;
+  // Gauge change of this (sealed) tire between inflation and summit (positive = reads higher up top)
+  changePsi: number;
+};
+
+/**
+ * Pressure across an elevation change (mountain pass, flight to an altitude race).
+ * The tire is sealed, so its absolute pressure only follows temperature while the
+ * surrounding air pressure drops with height and the gauge reading rises.
+ *
+ * If keepAbsoluteConstant=true (default here):
+ *  - Inflate at the bottom so the tire reads the target at the summit:
+ *    P_gauge_bottom = (P_target + P_atm_summit) * (T_bottom / T_summit) - P_atm_bottom
+ *
+ * If keepAbsoluteConstant=false:
+ *  - Gauge-constant convention: inflate to the target at the bottom and let off
+ *    the difference at the summit; summitPsi is what the gauge reads on arrival.
+ *
+ * With `limitPsi`, the inflate pressures are held to the rim and tire limits.
+ */
+export function planAltitudeChange(params: {
+  frontTargetPsi: number;
+  rearTargetPsi: number;
+  inflationElevationM: number;
+  summitElevationM: number;
+  inflationTempC: number;
+  summitTempC?: number;   // default: lapse-rate estimate from inflationTempC
+  keepAbsoluteConstant?: boolean;
+  limitPsi?: WheelLimiter;
+}): AltitudePlan {
+  const { frontTargetPsi, rearTargetPsi, inflationElevationM, summitElevationM, inflationTempC, keepAbsoluteConstant = true } = params;
+  const summitTempC = params.summitTempC
+    ?? inflationTempC - LAPSE_RATE_C_PER_M * (summitElevationM - inflationElevationM);
+
+  const Pb = ambientPressureAtElevation_kPa(inflationElevationM) * KPA_TO_PSI;
+  const Ps = ambientPressureAtElevation_kPa(summitElevationM) * KPA_TO_PSI;
+  const Tb = C_to_K(inflationTempC);
+  const Ts = C_to_K(summitTempC);
+
+  // Sealed tire: absolute scales with T only
+  const atSummit = (inflateGauge: number) => (inflateGauge + Pb) * (Ts / Tb) - Ps;
+  const plan = (wheel: Wheel, target: number): AltitudeWheelPlan => {
+    const wanted = keepAbsoluteConstant ? (target + Ps) * (Tb / Ts) - Pb : target;
+    const limits = params.limitPsi?.(wheel, wanted) ?? null;
+    const inflatePsi = limits?.psi ?? wanted;
+    const summitPsi = atSummit(inflatePsi);
+    return { inflatePsi: round1(inflatePsi), limits, summitPsi: round1(summitPsi), changePsi: round1(summitPsi - inflatePsi) };
+  };
+
+  return {
+    inflationAmbientPsi: round2(Pb),
+    summitAmbientPsi: round2(Ps),
+    summitTempC,
+    front: plan("front", frontTargetPsi),
+    rear: plan("rear", rearTargetPsi),
+  };
+}
+
 /** Main convenience: get temps/elevation and recommend front/rear pressures. */
 export async function recommendPressures(
   input: RecommendInput
@@ -164,49 +307,46 @@ export async function recommendPressures(
     refTempC = 20,
     when = new Date(),
     keepAbsoluteConstant = false,
+    tireHeatC = 0,
+    inflationTempC: maybeInflationTempC,
+    provider = defaultWeatherProvider,
+    signal,
   } = input;
 
   const coords = maybeCoords ?? (await getGeolocation());
-  const [ambientTempC, elevationM] = await Promise.all([
-    fetchOpenMeteoTempC(coords, when),
-    fetchOpenMeteoElevationM(coords),
+  const [hourly, elevationM] = await Promise.all([
+    provider.getHourly(coords, signal),
+    provider.getElevationM(coords, signal),
   ]);
+  const ambientTempC = weatherAt(hourly, when).temperatureC;
 
   const ambient_kPa = ambientPressureAtElevation_kPa(elevationM);
   const ambient_psi = ambient_kPa * KPA_TO_PSI;
 
-  const frontPsi =
-    round1(
-      compensatePressurePsi(
-        frontPsiRef,
-        refTempC,
-        ambientTempC,
-        ambient_psi,
-        keepAbsoluteConstant
-      )
-    );
-  const rearPsi =
-    round1(
-      compensatePressurePsi(
-        rearPsiRef,
-        refTempC,
-        ambientTempC,
-        ambient_psi,
-        keepAbsoluteConstant
-      )
-    );
+  const tireTempC = ambientTempC + tireHeatC;
+  const inflationTempC = maybeInflationTempC ?? ambientTempC;
+  // Pressure wanted in the (possibly sun-warmed) tire outdoors, then what that
+  // same air reads on the gauge at the inflation temperature
+  const riding = (ref: number) => compensatePressurePsi(ref, refTempC, ambientTempC, ambient_psi, keepAbsoluteConstant);
+  const inflate = (ride: number) => compensatePressurePsi(ride, tireTempC, inflationTempC, ambient_psi);
+  const frontRide = riding(frontPsiRef);
+  const rearRide = riding(rearPsiRef);
 
-  const modeNote = keepAbsoluteConstant
+  const modeNote = (keepAbsoluteConstant
     ? "Absolute-pressure mode: holding absolute constant; gauge varies with altitude."
-    : "Gauge-constant mode: temperature-compensated; gauge target stays intuitive.";
+    : "Gauge-constant mode: temperature-compensated; gauge target stays intuitive.")
+    + (tireHeatC ? " Set lower because the sun warms the tire air above ambient." : "")
+    + (maybeInflationTempC !== undefined ? " Gauge reading for pumping indoors; the tire reaches its target outside." : "");
 
   return {
     coords,
     elevationM,
     ambientTempC,
+    tireTempC,
+    inflationTempC,
     ambientPressurePsi: round2(ambient_psi),
-    front: { psi: frontPsi, note: modeNote },
-    rear: { psi: rearPsi, note: modeNote },
+    front: { psi: round1(inflate(frontRide)), ridePsi: round1(frontRide), note: modeNote },
+    rear: { psi: round1(inflate(rearRide)), ridePsi: round1(rearRide), note: modeNote },
   };
 }
 